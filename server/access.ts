@@ -0,0 +1,60 @@
+/**
+ * access.ts — Who may join a private room
+ *
+ * Visibility, passwords and invites live in Supabase
+ * (supabase/migrations/005_room_visibility.sql). A guest gets into a private
+ * room by redeeming the password or an invite through `join_private_room`,
+ * which records the grant. At join_room the server asks the database
+ * (`can_access_room`) whether that grant exists. Only positive answers are
+ * cached, so access is checked again once the cache entry runs out.
+ *
+ * Without SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY nothing is checked here,
+ * and private rooms are only protected by RLS.
+ */
+import { isRowId, type SupabaseRest } from './supabase.js'
+
+export interface RoomAccess {
+  readonly enforced: boolean
+  canJoin(roomId: string, userId: string): Promise<boolean>
+}
+
+export function createRoomAccess(rest: SupabaseRest | null, cacheMs = 10 * 60_000): RoomAccess {
+  if (!rest) {
+    console.warn('[Access] SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY not set — private rooms are not checked at join_room')
+    return { enforced: false, canJoin: async () => true }
+  }
+
+  // `${roomId}:${userId}` → Date.now() the grant stops being trusted
+  const allowed = new Map<string, number>()
+
+  const remember = (key: string) => {
+    const now = Date.now()
+    if (allowed.size >= 10_000) for (const [k, until] of allowed) if (until <= now) allowed.delete(k)
+    allowed.set(key, now + cacheMs)
+  }
+
+  return {
+    enforced: true,
+
+    async canJoin(roomId, userId) {
+      // No row, so it can't be private
+      if (!isRowId(roomId)) return true
+      const key = `${roomId}:${userId}`
+      if ((allowed.get(key) ?? 0) > Date.now()) return true
+
+      try {
+        const ok = await rest.request<boolean>('rpc/can_access_room', {
+          method: 'POST',
+          body:   { p_room_id: roomId, p_user_id: userId },
+        })
+        if (ok) remember(key)
+        else allowed.delete(key)
+        return ok === true
+      } catch (err) {
+        // Fail closed — a private room must not open up because the database is unreachable
+        console.error(`[Access] ❌ Could not check ${userId} in ${roomId}:`, err)
+        return false
+      }
+    },
+  }
+}
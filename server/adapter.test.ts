@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { AddressInfo, Socket } from 'net'
+import { createMemoryAdapter, createBrokerAdapter, type AdapterHandlers, type RoomAdapter } from './adapter.js'
+import { createBroker } from './broker.js'
+
+type Op = { n: number }
+
+// A replica whose whole state is the ops it has applied, in order
+const replica = (adapter: RoomAdapter<Op, Op[]>) => {
+  const state = {
+    applied: [] as Op[],
+    from:    [] as string[],
+    peersDown: [] as string[],
+    lost:    false,
+  }
+  const handlers: AdapterHandlers<Op, Op[]> = {
+    apply:    (op, from) => { state.applied.push(op); state.from.push(from) },
+    peerDown: id => { state.peersDown.push(id) },
+    snapshot: () => [...state.applied],
+    load:     ops => { state.applied = [...ops] },
+    lost:     () => { state.lost = true },
+  }
+  return { adapter, state, start: () => adapter.start(handlers) }
+}
+
+const until = async (check: () => boolean, ms = 2000) => {
+  const deadline = Date.now() + ms
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('timed out')
+    await new Promise(r => setTimeout(r, 5))
+  }
+}
+
+describe('memory adapter', () => {
+  it('starts without a peer and applies ops synchronously, in publish order', async () => {
+    const r = replica(createMemoryAdapter<Op, Op[]>())
+    expect(await r.start()).toBe(false)
+
+    for (let n = 1; n <= 3; n++) r.adapter.publish({ n })
+    expect(r.state.applied).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+    expect(new Set(r.state.from)).toEqual(new Set([r.adapter.instanceId]))
+  })
+
+  it('lets an op published while applying another run after it', async () => {
+    const adapter = createMemoryAdapter<Op, Op[]>()
+    const order: number[] = []
+    await adapter.start({
+      apply: ({ n }) => {
+        order.push(n)
+        if (n === 1) adapter.publish({ n: 2 })
+      },
+      peerDown: () => {}, snapshot: () => [], load: () => {}, lost: () => {},
+    })
+    adapter.publish({ n: 1 })
+    expect(order).toEqual([1, 2])
+  })
+})
+
+describe('broker adapter', () => {
+  let url = ''
+  let conns: Set<Socket>
+  let broker: ReturnType<typeof createBroker>
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    conns  = new Set()
+    broker = createBroker()
+    broker.on('connection', conn => {
+      conns.add(conn)
+      conn.on('close', () => conns.delete(conn))
+    })
+    await new Promise<void>(resolve => broker.listen(0, '127.0.0.1', resolve))
+    url = `tcp://127.0.0.1:${(broker.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    for (const conn of conns) conn.destroy()
+    await new Promise(resolve => broker.close(resolve))
+    vi.restoreAllMocks()
+  })
+
+  it('syncs a new instance from its peer, then keeps both in one order', async () => {
+    const a = replica(createBrokerAdapter<Op, Op[]>(url, 100))
+    expect(await a.start()).toBe(false)   // nobody to ask
+    a.adapter.publish({ n: 1 })
+    a.adapter.publish({ n: 2 })
+    await until(() => a.state.applied.length === 2)
+
+    const b = replica(createBrokerAdapter<Op, Op[]>(url, 100))
+    expect(await b.start()).toBe(true)    // a's snapshot
+    expect(b.state.applied).toEqual([{ n: 1 }, { n: 2 }])
+
+    // Interleaved publishers — both replicas see one order, the publisher included
+    for (let n = 3; n <= 10; n++) (n % 2 ? a : b).adapter.publish({ n })
+    await until(() => a.state.applied.length === 10 && b.state.applied.length === 10)
+    expect(b.state.applied).toEqual(a.state.applied)
+    // b's own history starts after the snapshot
+    expect(b.state.from).toEqual(a.state.from.slice(2))
+    expect(b.state.from).toContain(a.adapter.instanceId)
+    expect(b.state.from).toContain(b.adapter.instanceId)
+  })
+
+  it('tells the others when an instance drops off the broker', async () => {
+    const a = replica(createBrokerAdapter<Op, Op[]>(url, 100))
+    await a.start()
+    const b = replica(createBrokerAdapter<Op, Op[]>(url, 100))
+    await b.start()
+
+    // The broker's end of a's connection, the first one it accepted
+    const [aConn] = conns
+    aConn.destroy()
+
+    await until(() => b.state.peersDown.length === 1 && a.state.lost)
+    expect(b.state.peersDown).toEqual([a.adapter.instanceId])
+    expect(b.state.lost).toBe(false)
+  })
+
+  it('reports a lost broker so the instance can restart and resync', async () => {
+    const a = replica(createBrokerAdapter<Op, Op[]>(url, 100))
+    await a.start()
+    for (const conn of conns) conn.destroy()
+    await until(() => a.state.lost)
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * adapter.ts — How room state changes reach every socket server instance
+ *
+ * Each instance keeps a full replica of every room. Nothing changes a room
+ * directly: a handler publishes an op, and the adapter hands it back to
+ * `apply` on every instance — the publisher included — in one global order.
+ * Replicas that start from the same state and apply the same ops stay in
+ * step. Each one emits only to the sockets connected to it, so every client
+ * still sees every broadcast exactly once.
+ *
+ * Adapters:
+ * - memory (default) one process; publish() applies synchronously
+ * - broker several processes sharing rooms through broker.ts. A new
+ *   instance asks its peers for their state before it applies anything.
+ */
+import { randomUUID } from 'crypto'
+import { connect } from 'net'
+import { createInterface } from 'readline'
+
+export interface AdapterHandlers<Op, State> {
+  /** Every published op, on every instance, in the same order */
+  apply(op: Op, from: string): void
+  /** Another instance went away — its sockets are gone (ordered with ops) */
+  peerDown(instanceId: string): void
+  /** This replica's full state, handed to an instance that is joining */
+  snapshot(): State
+  /** Replaces the (empty) replica with a peer's snapshot */
+  load(state: State): void
+  /** The broker connection dropped; this replica can no longer keep up */
+  lost(): void
+}
+
+export interface RoomAdapter<Op, State> {
+  readonly kind:       string
+  readonly instanceId: string
+  /** Resolves once ops flow — true if the state came from a peer, false if this is the only replica */
+  start(handlers: AdapterHandlers<Op, State>): Promise<boolean>
+  publish(op: Op): void
+}
+
+// ── Memory adapter ───────────────────────────────────────────────────────────
+
+export function createMemoryAdapter<Op, State>(): RoomAdapter<Op, State> {
+  const instanceId = randomUUID().slice(0, 8)
+  let handlers: AdapterHandlers<Op, State> | null = null
+
+  return {
+    kind: 'memory',
+    instanceId,
+    async start(h) {
+      handlers = h
+      return false
+    },
+    publish(op) {
+      handlers?.apply(op, instanceId)
+    },
+  }
+}
+
+// ── Broker adapter ───────────────────────────────────────────────────────────
+// Wire format (one JSON object per line) — see broker.ts:
+//   → { hello: id }  { body }  { to, body }
+//   ← { seq, from, body }  { seq, left }  { from, body }   (the last one is direct)
+
+type Body<Op, State> =
+  | { kind: 'op'; op: Op }
+  | { kind: 'sync_request' }
+  | { kind: 'sync'; seq: number; state: State }
+
+type Sequenced<Op, State> =
+  | { seq: number; from: string; body: Body<Op, State> }
+  | { seq: number; left: string }
+
+export function createBrokerAdapter<Op, State>(url: string, syncTimeoutMs = 2000): RoomAdapter<Op, State> {
+  const instanceId = randomUUID().slice(0, 8)
+  const { hostname, port } = new URL(url)
+  const conn = connect({ host: hostname, port: Number(port) })
+
+  let handlers: AdapterHandlers<Op, State> | null = null
+  let ready = false
+  let requestSeq: number | null = null
+  // Ordered messages after our sync request, held until the snapshot is in
+  const pending: Sequenced<Op, State>[] = []
+
+  const write = (message: object) => conn.write(JSON.stringify(message) + '\n')
+
+  const deliver = (msg: Sequenced<Op, State>) => {
+    if ('left' in msg) return handlers!.peerDown(msg.left)
+    const { body, from } = msg
+    if (body.kind === 'op') handlers!.apply(body.op, from)
+    // Every replica is at the same point in the stream here, so any of them can answer
+    else if (body.kind === 'sync_request' && from !== instanceId) {
+      write({ to: from, body: { kind: 'sync', seq: msg.seq, state: handlers!.snapshot() } })
+    }
+  }
+
+  return {
+    kind: 'broker',
+    instanceId,
+
+    start(h) {
+      handlers = h
+      return new Promise((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined
+
+        const finish = (fromPeer: boolean) => {
+          clearTimeout(timer)
+          ready = true
+          for (const msg of pending.splice(0)) deliver(msg)
+          resolve(fromPeer)
+        }
+
+        conn.once('error', reject)
+        conn.once('connect', () => {
+          conn.off('error', reject)
+          conn.on('error', err => console.error('[Adapter] ❌ Broker connection:', err.message))
+          write({ hello: instanceId })
+          write({ body: { kind: 'sync_request' } })
+          // Nobody answered — we are the first instance
+          timer = setTimeout(() => finish(false), syncTimeoutMs)
+        })
+        conn.once('close', () => h.lost())
+
+        createInterface({ input: conn }).on('line', line => {
+          let msg: Sequenced<Op, State> | { from: string; body: Body<Op, State> }
+          try {
+            msg = JSON.parse(line)
+          } catch {
+            console.error('[Adapter] ❌ Unreadable broker message')
+            return
+          }
+
+          // Direct message — only ever a snapshot answering our sync request
+          if (!('seq' in msg)) {
+            const { body } = msg
+            if (!ready && body.kind === 'sync' && body.seq === requestSeq) {
+              h.load(body.state)
+              finish(true)
+            }
+            return
+          }
+
+          if (ready) return deliver(msg)
+          if ('body' in msg && msg.body.kind === 'sync_request' && msg.from === instanceId) requestSeq = msg.seq
+          else if (requestSeq !== null) pending.push(msg)
+        })
+      })
+    },
+
+    publish(op) {
+      write({ body: { kind: 'op', op } })
+    },
+  }
+}
+
+export function createRoomAdapter<Op, State>(kind: string, brokerUrl: string): RoomAdapter<Op, State> {
+  switch (kind) {
+    case 'memory': return createMemoryAdapter()
+    case 'broker': return createBrokerAdapter(brokerUrl)
+    default:
+      console.warn(`[Adapter] Unknown ROOM_ADAPTER "${kind}" — using memory`)
+      return createMemoryAdapter()
+  }
+}
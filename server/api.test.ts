@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { createApiHandler, type ApiDeps } from './api.js'
+import { createMetrics } from './metrics.js'
+
+const ADMIN = 'admin-secret'
+
+const setup = (overrides: Partial<ApiDeps> = {}) => {
+  const deps: ApiDeps = {
+    adminToken:   ADMIN,
+    metricsToken: '',
+    metrics:      createMetrics('test_'),
+    listRooms:    vi.fn(() => [{ id: 'r1' }]),
+    describeRoom: vi.fn((id: string) => (id === 'r1' ? { id } : null)),
+    skip:         vi.fn((id: string) => id === 'r1'),
+    closeRoom:    vi.fn((id: string) => id === 'r1'),
+    kick:         vi.fn((id: string, userId: string) => id === 'r1' && userId === 'u1'),
+    ...overrides,
+  }
+  const handle = createApiHandler(deps)
+
+  // Just enough of req / res for the handler. `token` goes out as a Bearer
+  // token; pass `authorization` to send some other header instead
+  const request = (method: string, url: string, token?: string, authorization = token && `Bearer ${token}`) => {
+    const req = { method, url, headers: authorization ? { authorization } : {} } as IncomingMessage
+    const out = { status: 0, body: '' }
+    const res = {
+      writeHead: (status: number) => { out.status = status },
+      end: (body: string) => { out.body = body },
+    } as unknown as ServerResponse
+    handle(req, res)
+    const json = () => JSON.parse(out.body)
+    return { status: out.status, body: out.body, json }
+  }
+
+  return { deps, request }
+}
+
+describe('admin API auth', () => {
+  it('serves /health without a token', () => {
+    const { request } = setup()
+    const res = request('GET', '/health')
+    expect(res.status).toBe(200)
+    expect(res.json().status).toBe('ok')
+  })
+
+  it('rejects /rooms without a bearer token', () => {
+    const { request, deps } = setup()
+    expect(request('GET', '/rooms').status).toBe(401)
+    expect(deps.listRooms).not.toHaveBeenCalled()
+  })
+
+  it('rejects a wrong token and a non-Bearer scheme', () => {
+    const { request } = setup()
+    expect(request('GET', '/rooms', 'nope').status).toBe(401)
+    expect(request('GET', '/rooms', ADMIN.slice(0, -1)).status).toBe(401)
+    expect(request('GET', '/rooms', undefined, `Basic ${ADMIN}`).status).toBe(401)
+    expect(request('GET', '/rooms', undefined, ADMIN).status).toBe(401)
+  })
+
+  it('accepts the admin token', () => {
+    const { request } = setup()
+    const res = request('GET', '/rooms', ADMIN)
+    expect(res.status).toBe(200)
+    expect(res.json()).toEqual({ rooms: [{ id: 'r1' }] })
+  })
+
+  it('turns /rooms off entirely without ADMIN_TOKEN', () => {
+    const { request, deps } = setup({ adminToken: '' })
+    const res = request('GET', '/rooms', '')
+    expect(res.status).toBe(403)
+    expect(res.json()).toEqual({ error: 'admin_disabled' })
+    expect(request('GET', '/rooms', 'anything').status).toBe(403)
+    expect(deps.listRooms).not.toHaveBeenCalled()
+  })
+
+  it('guards /metrics only when METRICS_TOKEN is set', () => {
+    expect(setup().request('GET', '/metrics').status).toBe(200)
+
+    const { request } = setup({ metricsToken: 'scrape' })
+    expect(request('GET', '/metrics').status).toBe(401)
+    expect(request('GET', '/metrics', ADMIN).status).toBe(401)
+    expect(request('GET', '/metrics', 'scrape').status).toBe(200)
+  })
+})
+
+describe('admin API routing', () => {
+  it('describes a room, 404 when it does not exist', () => {
+    const { request } = setup()
+    expect(request('GET', '/rooms/r1', ADMIN).json()).toEqual({ id: 'r1' })
+    expect(request('GET', '/rooms/r2', ADMIN).status).toBe(404)
+  })
+
+  it('runs skip / close / kick on POST', () => {
+    const { request, deps } = setup()
+    expect(request('POST', '/rooms/r1/skip', ADMIN).json()).toEqual({ ok: true })
+    expect(request('POST', '/rooms/r1/close', ADMIN).status).toBe(200)
+    expect(request('POST', '/rooms/r1/members/u1/kick', ADMIN).status).toBe(200)
+    expect(deps.skip).toHaveBeenCalledWith('r1')
+    expect(deps.closeRoom).toHaveBeenCalledWith('r1')
+    expect(deps.kick).toHaveBeenCalledWith('r1', 'u1')
+  })
+
+  it('404s an action on a missing room or member', () => {
+    const { request } = setup()
+    expect(request('POST', '/rooms/r2/skip', ADMIN).status).toBe(404)
+    expect(request('POST', '/rooms/r1/members/u2/kick', ADMIN).status).toBe(404)
+  })
+
+  it('405s the wrong method without running the action', () => {
+    const { request, deps } = setup()
+    expect(request('POST', '/rooms', ADMIN).status).toBe(405)
+    expect(request('DELETE', '/rooms/r1', ADMIN).status).toBe(405)
+    expect(request('GET', '/rooms/r1/skip', ADMIN).status).toBe(405)
+    expect(request('GET', '/rooms/r1/members/u1/kick', ADMIN).status).toBe(405)
+    expect(deps.skip).not.toHaveBeenCalled()
+    expect(deps.kick).not.toHaveBeenCalled()
+  })
+
+  it('404s unknown paths', () => {
+    const { request } = setup()
+    expect(request('GET', '/nope').status).toBe(404)
+    expect(request('POST', '/rooms/r1/explode', ADMIN).status).toBe(404)
+    expect(request('POST', '/rooms/r1/skip/extra', ADMIN).status).toBe(404)
+    expect(request('POST', '/rooms/r1/members/u1', ADMIN).status).toBe(404)
+    expect(request('GET', '/rooms/%E0%A4%A', ADMIN).status).toBe(404)
+  })
+
+  it('decodes percent-encoded ids', () => {
+    const { request, deps } = setup()
+    request('GET', '/rooms/a%2Fb', ADMIN)
+    expect(deps.describeRoom).toHaveBeenCalledWith('a/b')
+  })
+})
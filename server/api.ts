@@ -0,0 +1,115 @@
+/**
+ * api.ts — HTTP routes for ops scripting / debugging
+ *
+ *   GET  /  or  /health                        liveness + counters (public)
+ *   GET  /metrics                              Prometheus scrape (METRICS_TOKEN if set)
+ *   GET  /rooms                                active rooms, summarized
+ *   GET  /rooms/:id                            one room's live state
+ *   POST /rooms/:id/skip                       advance the queue
+ *   POST /rooms/:id/close                      evict everyone and drop the room
+ *   POST /rooms/:id/members/:userId/kick       remove one member
+ *
+ * Everything under /rooms needs `Authorization: Bearer $ADMIN_TOKEN` and is
+ * off entirely when ADMIN_TOKEN is unset. The room operations themselves live
+ * in index.ts next to the socket handlers and are passed in.
+ */
+import type { IncomingMessage, ServerResponse } from 'http'
+import { createHash, timingSafeEqual } from 'crypto'
+import type { Metrics } from './metrics.js'
+
+// Each returns null / false when the room (or member) doesn't exist
+export interface ApiDeps {
+  adminToken:   string
+  metricsToken: string
+  metrics:      Metrics
+  listRooms():                          unknown[]
+  describeRoom(roomId: string):         unknown | null
+  skip(roomId: string):                 boolean
+  closeRoom(roomId: string):            boolean
+  kick(roomId: string, userId: string): boolean
+}
+
+type ApiError = 'not_found' | 'method_not_allowed' | 'unauthorized' | 'admin_disabled'
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const fail = (res: ServerResponse, status: number, error: ApiError) => json(res, status, { error })
+
+// Hash both sides so the comparison is constant-time regardless of length
+const digest = (s: string) => createHash('sha256').update(s).digest()
+
+/** Path segments, or null if one isn't valid percent-encoding */
+function pathParts(url = '/'): string[] | null {
+  try {
+    return new URL(url, 'http://localhost').pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null
+  }
+}
+
+function hasBearer(req: IncomingMessage, expected: string): boolean {
+  const header = req.headers.authorization ?? ''
+  const token  = header.startsWith('Bearer ') ? header.slice(7) : ''
+  return !!token && timingSafeEqual(digest(token), digest(expected))
+}
+
+export function createApiHandler(deps: ApiDeps) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    const parts  = pathParts(req.url)
+    const method = req.method ?? 'GET'
+    if (!parts) return fail(res, 404, 'not_found')
+
+    if (parts.length === 0 || (parts.length === 1 && parts[0] === 'health')) {
+      json(res, 200, { status: 'ok', server: 'Syncy Socket Server', metrics: deps.metrics.snapshot() })
+      return
+    }
+    if (parts.length === 1 && parts[0] === 'metrics') {
+      if (deps.metricsToken && !hasBearer(req, deps.metricsToken)) return fail(res, 401, 'unauthorized')
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+      res.end(deps.metrics.render())
+      return
+    }
+    if (parts[0] !== 'rooms') return fail(res, 404, 'not_found')
+
+    if (!deps.adminToken) return fail(res, 403, 'admin_disabled')
+    if (!hasBearer(req, deps.adminToken)) return fail(res, 401, 'unauthorized')
+
+    const [, roomId, action, userId, memberAction] = parts
+    const route = (expected: string) => {
+      if (method === expected) return true
+      fail(res, 405, 'method_not_allowed')
+      return false
+    }
+
+    // GET /rooms
+    if (!roomId) {
+      if (route('GET')) json(res, 200, { rooms: deps.listRooms() })
+      return
+    }
+
+    // GET /rooms/:id
+    if (!action) {
+      if (!route('GET')) return
+      const room = deps.describeRoom(roomId)
+      return room ? json(res, 200, room) : fail(res, 404, 'not_found')
+    }
+
+    // POST /rooms/:id/skip | /close
+    if ((action === 'skip' || action === 'close') && parts.length === 3) {
+      if (!route('POST')) return
+      const done = action === 'skip' ? deps.skip(roomId) : deps.closeRoom(roomId)
+      return done ? json(res, 200, { ok: true }) : fail(res, 404, 'not_found')
+    }
+
+    // POST /rooms/:id/members/:userId/kick
+    if (action === 'members' && userId && memberAction === 'kick' && parts.length === 5) {
+      if (!route('POST')) return
+      return deps.kick(roomId, userId) ? json(res, 200, { ok: true }) : fail(res, 404, 'not_found')
+    }
+
+    fail(res, 404, 'not_found')
+  }
+}
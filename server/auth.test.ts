@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import { verifyAccessToken } from './auth.js'
+
+const SECRET = 'test-secret'
+const NOW    = 1_700_000_000_000
+
+const b64 = (o: object) => Buffer.from(JSON.stringify(o)).toString('base64url')
+
+// A Supabase-shaped token; override header or claims to break it
+const sign = (claims: object, { header = { alg: 'HS256', typ: 'JWT' }, secret = SECRET } = {}) => {
+  const unsigned = `${b64(header)}.${b64(claims)}`
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`
+}
+
+const valid = { sub: 'user-1', aud: 'authenticated', exp: NOW / 1000 + 3600 }
+
+describe('verifyAccessToken', () => {
+  it('accepts a valid token and returns its claims', () => {
+    const result = verifyAccessToken(sign(valid), SECRET, NOW)
+    expect(result).toEqual({ ok: true, claims: valid })
+  })
+
+  it('reports a missing token as unauthenticated', () => {
+    expect(verifyAccessToken(undefined, SECRET, NOW)).toEqual({ ok: false, code: 'unauthenticated' })
+    expect(verifyAccessToken('', SECRET, NOW)).toEqual({ ok: false, code: 'unauthenticated' })
+  })
+
+  it('rejects an expired token', () => {
+    const token = sign({ ...valid, exp: NOW / 1000 - 1 })
+    expect(verifyAccessToken(token, SECRET, NOW)).toEqual({ ok: false, code: 'invalid_token' })
+    // …and one that expires exactly now
+    expect(verifyAccessToken(sign({ ...valid, exp: NOW / 1000 }), SECRET, NOW).ok).toBe(false)
+  })
+
+  it('rejects a token signed with another secret', () => {
+    const token = sign(valid, { secret: 'someone-else' })
+    expect(verifyAccessToken(token, SECRET, NOW)).toEqual({ ok: false, code: 'invalid_token' })
+  })
+
+  it('rejects claims tampered with after signing', () => {
+    const [header, , signature] = sign(valid).split('.')
+    const token = `${header}.${b64({ ...valid, sub: 'host-1' })}.${signature}`
+    expect(verifyAccessToken(token, SECRET, NOW).ok).toBe(false)
+  })
+
+  it('rejects alg: none, with or without a signature', () => {
+    const unsigned = `${b64({ alg: 'none', typ: 'JWT' })}.${b64(valid)}`
+    expect(verifyAccessToken(`${unsigned}.`, SECRET, NOW)).toEqual({ ok: false, code: 'invalid_token' })
+    expect(verifyAccessToken(sign(valid, { header: { alg: 'none', typ: 'JWT' } }), SECRET, NOW).ok).toBe(false)
+  })
+
+  it('rejects a token without a sub', () => {
+    const { sub: _sub, ...noSub } = valid
+    expect(verifyAccessToken(sign(noSub), SECRET, NOW)).toEqual({ ok: false, code: 'invalid_token' })
+    expect(verifyAccessToken(sign({ ...valid, sub: '' }), SECRET, NOW).ok).toBe(false)
+  })
+
+  it('rejects a token for another audience', () => {
+    expect(verifyAccessToken(sign({ ...valid, aud: 'service_role' }), SECRET, NOW).ok).toBe(false)
+    expect(verifyAccessToken(sign({ ...valid, aud: ['other', 'authenticated'] }), SECRET, NOW).ok).toBe(true)
+  })
+
+  it('rejects anything that is not three segments', () => {
+    expect(verifyAccessToken('a.b', SECRET, NOW).ok).toBe(false)
+    expect(verifyAccessToken('not-a-jwt', SECRET, NOW).ok).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * auth.ts — Offline verification of Supabase access tokens
+ *
+ * Supabase signs user JWTs with HS256 using the project's JWT secret
+ * (Dashboard → Project Settings → API → JWT Secret), so we can verify
+ * them locally with node:crypto — no network round-trip to Supabase.
+ */
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export interface JwtClaims {
+  sub:    string          // Supabase user id
+  exp:    number          // seconds since epoch
+  aud?:   string | string[]
+  role?:  string
+  email?: string
+}
+
+export type AuthFailure = 'unauthenticated' | 'invalid_token'
+
+export type AuthResult =
+  | { ok: true;  claims: JwtClaims }
+  | { ok: false; code: AuthFailure }
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+/** Verifies signature, algorithm, expiry and audience of a Supabase access token */
+export function verifyAccessToken(token: unknown, secret: string, now = Date.now()): AuthResult {
+  if (typeof token !== 'string' || !token) return { ok: false, code: 'unauthenticated' }
+
+  const parts = token.split('.')
+  if (parts.length !== 3) return { ok: false, code: 'invalid_token' }
+  const [headerB64, payloadB64, signatureB64] = parts
+
+  const header = decodeSegment<{ alg?: string }>(headerB64)
+  if (header?.alg !== 'HS256') return { ok: false, code: 'invalid_token' }
+
+  const expected = createHmac('sha256', secret).update(`${headerB64}.${payloadB64}`).digest()
+  const actual   = Buffer.from(signatureB64, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { ok: false, code: 'invalid_token' }
+  }
+
+  const claims = decodeSegment<JwtClaims>(payloadB64)
+  if (!claims || typeof claims.sub !== 'string' || !claims.sub) return { ok: false, code: 'invalid_token' }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return { ok: false, code: 'invalid_token' }
+
+  // Signed-in and anonymous users both carry aud = "authenticated"
+  const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!aud.includes('authenticated')) return { ok: false, code: 'invalid_token' }
+
+  return { ok: true, claims }
+}
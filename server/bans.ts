@@ -0,0 +1,109 @@
+/**
+ * bans.ts — Pluggable store for room bans
+ *
+ * A ban outlives the room it was issued in (rooms are dropped once empty) and
+ * has to survive a restart, so it is written to Supabase. The server keeps
+ * every active ban in memory and checks join_room against that — the store is
+ * only read once, on startup.
+ *
+ * Stores:
+ * - supabase (default) public.room_bans through PostgREST with the service
+ *   role key (supabase/migrations/004_room_bans.sql)
+ * - memory   bans last until the process exits (local dev without Supabase)
+ */
+import type { SupabaseRest } from './supabase.js'
+
+export interface Ban {
+  roomId:    string
+  userId:    string
+  bannedBy:  string
+  reason?:   string
+  createdAt: number          // Date.now()
+  expiresAt: number | null   // Date.now() scale; null = permanent
+}
+
+export interface BanStore {
+  readonly kind: string
+  /** Every ban that hasn't expired yet */
+  load(): Promise<Ban[]>
+  /** Fire-and-forget upsert — banning someone again replaces the old ban */
+  save(ban: Ban): void
+}
+
+export const isActive = (ban: Ban, now = Date.now()) => ban.expiresAt === null || ban.expiresAt > now
+
+// ── Memory store ─────────────────────────────────────────────────────────────
+
+export function createMemoryBanStore(): BanStore {
+  return {
+    kind: 'memory',
+    load: async () => [],
+    save: () => {},
+  }
+}
+
+// ── Supabase store ───────────────────────────────────────────────────────────
+
+interface BanRow {
+  room_id:    string
+  user_id:    string
+  banned_by:  string
+  reason:     string | null
+  created_at: string
+  expires_at: string | null
+}
+
+const toRow = (ban: Ban): BanRow => ({
+  room_id:    ban.roomId,
+  user_id:    ban.userId,
+  banned_by:  ban.bannedBy,
+  reason:     ban.reason ?? null,
+  created_at: new Date(ban.createdAt).toISOString(),
+  expires_at: ban.expiresAt === null ? null : new Date(ban.expiresAt).toISOString(),
+})
+
+const fromRow = (row: BanRow): Ban => ({
+  roomId:    row.room_id,
+  userId:    row.user_id,
+  bannedBy:  row.banned_by,
+  reason:    row.reason ?? undefined,
+  createdAt: Date.parse(row.created_at),
+  expiresAt: row.expires_at === null ? null : Date.parse(row.expires_at),
+})
+
+export function createSupabaseBanStore(rest: SupabaseRest): BanStore {
+  return {
+    kind: 'supabase',
+
+    async load() {
+      const active = `or=(expires_at.is.null,expires_at.gt.${new Date().toISOString()})`
+      try {
+        return ((await rest.request<BanRow[]>(`room_bans?select=*&${active}`)) ?? []).map(fromRow)
+      } catch (err) {
+        console.error('[Bans] ❌ Could not load bans — none will be enforced until they are reissued:', err)
+        return []
+      }
+    },
+
+    save(ban) {
+      rest.request('room_bans?on_conflict=room_id,user_id', {
+        method: 'POST',
+        body:   toRow(ban),
+        prefer: 'resolution=merge-duplicates,return=minimal',
+      }).catch(err => console.error(`[Bans] ❌ Could not save ban of ${ban.userId} in ${ban.roomId}:`, err))
+    },
+  }
+}
+
+export function createBanStore(kind: string, rest: SupabaseRest | null): BanStore {
+  switch (kind) {
+    case 'memory':   return createMemoryBanStore()
+    case 'supabase':
+      if (rest) return createSupabaseBanStore(rest)
+      console.warn('[Bans] SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY not set — bans are kept in memory only')
+      return createMemoryBanStore()
+    default:
+      console.warn(`[Bans] Unknown BAN_STORE "${kind}" — using memory`)
+      return createMemoryBanStore()
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * broker.ts — Minimal ordered pub/sub broker for running several socket servers
+ *
+ *   npm run broker                                          (BROKER_PORT, default 7400)
+ *   ROOM_ADAPTER=broker PORT=3001 ROOM_STORE_PATH=./data/a.json npm run dev
+ *   ROOM_ADAPTER=broker PORT=3002 ROOM_STORE_PATH=./data/b.json npm run dev
+ *
+ * A local stand-in for a real message bus. What the broker adapter needs is
+ * one total order: every message gets the next sequence number and goes to
+ * every connected instance, the sender included. A single Redis stream or a
+ * NATS JetStream subject could provide the same. Nothing is kept on disk,
+ * and an instance that reconnects has to resync from its peers.
+ *
+ * Protocol: newline-delimited JSON over TCP.
+ *   client → { hello: id }          once, before anything else
+ *   client → { body }               broadcast → { seq, from, body } to everyone
+ *   client → { to, body }           direct    → { from, body } to `to` only
+ *   close  →                        broadcast → { seq, left: id }
+ */
+import { createServer, type Socket } from 'net'
+import { createInterface } from 'readline'
+import { pathToFileURL } from 'url'
+
+const BROKER_PORT = parseInt(process.env.BROKER_PORT || '7400', 10)
+
+/** The broker server, not yet listening */
+export function createBroker() {
+  const clients = new Map<string, Socket>()
+  let seq = 0
+
+  function broadcast(message: object) {
+    const line = JSON.stringify({ seq: ++seq, ...message }) + '\n'
+    for (const conn of clients.values()) conn.write(line)
+  }
+
+  return createServer((conn) => {
+    let id: string | null = null
+
+    createInterface({ input: conn }).on('line', (line) => {
+      let msg: { hello?: string; to?: string; body?: unknown }
+      try {
+        msg = JSON.parse(line)
+      } catch {
+        console.warn(`[Broker] Dropping unreadable line from ${id ?? 'unknown'}`)
+        return
+      }
+
+      if (msg.hello) {
+        id = msg.hello
+        clients.set(id, conn)
+        console.log(`[Broker] + ${id} (${clients.size} connected)`)
+        return
+      }
+      if (!id) return
+
+      if (msg.to) clients.get(msg.to)?.write(JSON.stringify({ from: id, body: msg.body }) + '\n')
+      else broadcast({ from: id, body: msg.body })
+    })
+
+    conn.on('error', err => console.warn(`[Broker] ${id ?? 'unknown'}: ${err.message}`))
+    conn.on('close', () => {
+      if (!id || clients.get(id) !== conn) return
+      clients.delete(id)
+      console.log(`[Broker] - ${id} (${clients.size} connected)`)
+      broadcast({ left: id })
+    })
+  })
+}
+
+// Run directly (npm run broker); imported by the tests
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  createBroker().listen(BROKER_PORT, () => {
+    console.log(`📮 Syncy broker listening on ${BROKER_PORT}`)
+  })
+}
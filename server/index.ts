@@ -4,21 +4,176 @@
  * Features:
  * - Member deduplication by userId (multiple tabs = 1 member)
  * - Accurate mid-session join sync with server-side time tracking
- * - Host reassignment on disconnect
+ * - Host reassignment on disconnect, after a reconnect grace window
  * - Position heartbeat from host stored server-side
+ * - Server-authoritative queue (add / remove / move / advance)
+ * - Auto-advance when the current song's duration runs out, host or not
+ * - Listener vote-to-skip against a share of connected members
+ * - Room chat with server timestamps; recent history goes out in room_state
+ * - Rate-limited emoji reactions, recorded against song + position
+ * - Per-member playback health (in sync / buffering / muted / autoplay blocked…)
+ * - Sync telemetry (drift / RTT / seeks) aggregated per room for the host overlay
+ * - Host / DJ / listener roles: host and DJs control playback and the queue,
+ *   everything else is rejected with an `error` event
+ * - Host moderation: kick, timed or permanent bans (kept in Supabase, checked at
+ *   join_room) and muting a member's chat and reactions
+ * - Private rooms: join_room needs a grant from the room password or an invite
+ *   (checked in Supabase, see access.ts)
+ * - Admin HTTP API (list / inspect rooms, force-skip, close, kick) behind ADMIN_TOKEN
+ * - Prometheus /metrics: rooms, sockets, members, events, rejections, latency
+ * - Supabase JWT in the handshake (swapped by refresh_auth when it's refreshed);
+ *   userId comes from the token, not the client
+ * - time_sync ping/pong so clients can estimate their clock offset
+ * - Room state snapshotted to a pluggable store and rehydrated on startup
+ * - Room broadcasts numbered per room and buffered; a reconnecting member
+ *   gets just the events it missed instead of a full room_state
+ * - Rooms replicated across server instances through a pluggable adapter:
+ *   handlers publish ops, every instance applies them in order (adapter.ts)
+ * - Token-bucket rate limits per socket and event; repeat offenders are disconnected
+ * - Event payloads typed by the contract in shared/events.ts (also used by the client)
+ *   and schema-checked at runtime; malformed ones are rejected, never handled
  */
 import { createServer } from 'http'
+import { randomUUID } from 'crypto'
 import { Server, Socket } from 'socket.io'
+import { verifyAccessToken, type AuthResult } from './auth.js'
+import {
+  createRoomStore, snapshotRoom, restoreRoom, snapshotReplica, restoreReplica,
+  type ReplicaSnapshot, type RoomSnapshot,
+} from './persistence.js'
+import { validatePayload, type EventPayload } from './validation.js'
+import { createRateLimiter, createStrikeCounter, parseRateLimits } from './rateLimit.js'
+import { acceptsVersion } from './playbackVersion.js'
+import { createMetrics, type Labels } from './metrics.js'
+import { createApiHandler } from './api.js'
+import { createRoomAdapter } from './adapter.js'
+import { createBanStore, isActive, type Ban } from './bans.js'
+import { createRoomAccess } from './access.js'
+import { createSupabaseRest } from './supabase.js'
+import { createSupabaseMirror } from './mirror.js'
+import type {
+  BufferedEvent, ChatMessage, Member, MemberRole, Reaction, RoomState, SequencedEvent, ServerEvent, SocketData, Song,
+} from './types.js'
+import type {
+  ChatMessage as WireChatMessage,
+  ClientToServerEvents, ServerToClientEvents, RolePayload, RoomStateEvent, SocketRejectCode,
+} from '../shared/events.js'
+
+type SyncySocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>
+
+// Client events that change room state — published as ops; the rest are answered on the spot
+type ReplicatedEvent = Exclude<keyof ClientToServerEvents, 'time_sync' | 'refresh_auth' | 'request_state' | 'request_telemetry'>
+
+// Everything that changes a room goes through the adapter as one of these
+type RoomOp =
+  | { [E in ReplicatedEvent]: {
+      type: 'event'; event: E; payload: EventPayload<E>
+      socketId: string; userId: string | null; id: string
+    } }[ReplicatedEvent]
+  | { type: 'disconnect';    roomId: string; socketId: string; userId: string | null }
+  | { type: 'grace_expired'; roomId: string; socketId: string; userId: string }
+  | { type: 'song_ended';    roomId: string; songId: string }
+  | { type: 'admin_skip';    roomId: string }
+  | { type: 'admin_kick';    roomId: string; userId: string; reason: string }
+  | { type: 'admin_close';   roomId: string; reason: string }
+  | { type: 'restore';       snapshots: RoomSnapshot[] }
+  | { type: 'history';       roomId: string; messages: ChatMessage[] }
+  | { type: 'settle';        roomIds: string[] }
+
+// Who an event op came from; `socket` is set only on the instance it is connected to
+interface OpContext {
+  socketId:   string
+  socket?:    SyncySocket
+  userId:     string | null   // the publishing connection's user, from its token
+  instanceId: string
+  id:         string          // stamped once by the publisher so every replica agrees
+}
 
 const PORT        = parseInt(process.env.PORT || '3001', 10)
 const FRONTEND_URL = process.env.FRONTEND_URL || '*'
+const JWT_SECRET   = process.env.SUPABASE_JWT_SECRET || ''
+const ADMIN_TOKEN  = process.env.ADMIN_TOKEN || ''
+// Bearer token for GET /metrics; unset = open (it carries room ids)
+const METRICS_TOKEN = process.env.METRICS_TOKEN || ''
+const ROOM_STORE   = process.env.ROOM_STORE || 'file'
+const ROOM_STORE_PATH  = process.env.ROOM_STORE_PATH || './data/rooms.json'
+// memory = one process; broker = share rooms with other instances via BROKER_URL
+const ROOM_ADAPTER = process.env.ROOM_ADAPTER || 'memory'
+const BROKER_URL   = process.env.BROKER_URL || 'tcp://127.0.0.1:7400'
+// Service role access for bans, private room checks, chat history and server-side room writes (unset = none of them)
+const SUPABASE_URL = process.env.SUPABASE_URL || ''
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+// supabase = public.room_bans; memory = lost on restart
+const BAN_STORE    = process.env.BAN_STORE || 'supabase'
+// How long a restored room waits for its host to reconnect before reassigning
+const RESTORE_GRACE_MS = parseInt(process.env.RESTORE_GRACE_MS || '60000', 10)
+// How long a dropped connection stays a "reconnecting" member before removal
+const DISCONNECT_GRACE_MS = parseInt(process.env.DISCONNECT_GRACE_MS || '20000', 10)
+// Slack past Song.duration before the server advances on its own — lets the
+// host's own end-of-track (or repeat) land first and covers buffering stalls
+const AUTO_ADVANCE_GRACE_MS = parseInt(process.env.AUTO_ADVANCE_GRACE_MS || '2000', 10)
+// Share of connected members whose skip votes skip the current song
+const SKIP_VOTE_THRESHOLD = parseFloat(process.env.SKIP_VOTE_THRESHOLD || '0.5')
+// Per-event bucket overrides — see rateLimit.ts for the format and defaults
+const RATE_LIMITS = parseRateLimits(process.env.RATE_LIMITS || '')
+// Rate-limit hits within the window that get a socket disconnected
+const RATE_LIMIT_STRIKES   = parseInt(process.env.RATE_LIMIT_STRIKES || '30', 10)
+const RATE_LIMIT_WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10)
 
-const httpServer = createServer((req, res) => {
-  res.writeHead(200, { 'Content-Type': 'application/json' })
-  res.end(JSON.stringify({ status: 'ok', server: 'Syncy Socket Server' }))
-})
+const CHAT_HISTORY    = 50    // messages kept per room for late joiners
+const REPLAY_HISTORY  = 200   // room broadcasts kept per room for reconnecting members
+// Full-state broadcasts: only the newest one matters on replay
+const LATEST_WINS = new Set<SequencedEvent>(['members_update', 'queue_update', 'skip_votes', 'sync_position'])
+
+const REACTION_HISTORY   = 500    // reactions kept per room
+const REACTION_BURST     = 5      // per socket, within…
+const REACTION_WINDOW_MS = 3000
+
+const TELEMETRY_SAMPLES  = 60       // per member (~5 min at the client's 5s cadence)
+const TELEMETRY_STALE_MS = 15_000   // latest sample older than this is left out of the summary
+
+if (!JWT_SECRET) {
+  console.warn('⚠️  SUPABASE_JWT_SECRET not set — every join_room will be rejected')
+}
+
+const metrics = createMetrics('syncy_')
+const eventsTotal         = metrics.counter('socket_events_total', 'Client events received, by event')
+const rejectedTotal       = metrics.counter('socket_events_rejected_total', 'Client events answered with an error, by event and code')
+const rateLimitedTotal    = metrics.counter('socket_rate_limited_total', 'Events dropped by a rate limit, by event')
+const rateLimitKicksTotal = metrics.counter('socket_rate_limit_disconnects_total', 'Sockets disconnected for repeated rate-limit hits')
+const hostReassignTotal   = metrics.counter('host_reassignments_total', 'Times the server picked a new host after the old one left')
+const moderationTotal     = metrics.counter('moderation_actions_total', 'Host kicks, bans and mutes, by action')
+const staleDroppedTotal   = metrics.counter('playback_stale_dropped_total', 'Playback events dropped for an outdated version, by event')
+const eventDuration       = metrics.histogram('socket_event_duration_seconds', 'Time to validate and handle a client event, by event')
+
+const httpServer = createServer(createApiHandler({
+  adminToken:   ADMIN_TOKEN,
+  metricsToken: METRICS_TOKEN,
+  metrics,
+  listRooms:    () => Array.from(rooms, ([roomId, room]) => summarizeRoom(roomId, room)),
+  describeRoom: (roomId) => {
+    const room = rooms.get(roomId)
+    return room ? describeRoom(roomId, room) : null
+  },
+  skip: (roomId) => {
+    if (!rooms.has(roomId)) return false
+    console.log(`[Room ${roomId.slice(0,8)}] 🛠 Admin skip`)
+    adapter.publish({ type: 'admin_skip', roomId })
+    return true
+  },
+  closeRoom: (roomId) => {
+    if (!rooms.has(roomId)) return false
+    adapter.publish({ type: 'admin_close', roomId, reason: 'Closed by an admin' })
+    return true
+  },
+  kick: (roomId, userId) => {
+    if (!rooms.get(roomId)?.members.has(userId)) return false
+    adapter.publish({ type: 'admin_kick', roomId, userId, reason: 'Removed by an admin' })
+    return true
+  },
+}))
 
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
   cors: {
     origin: FRONTEND_URL === '*' ? '*' : FRONTEND_URL.split(','),
     methods: ['GET', 'POST'],
@@ -29,41 +184,58 @@ const io = new Server(httpServer, {
   pingTimeout: 25_000,
 })
 
-// ── Types ────────────────────────────────────────────────────────────────────
+const rooms = new Map<string, RoomState>()
+const roomStore = createRoomStore(ROOM_STORE, ROOM_STORE_PATH)
+const adapter   = createRoomAdapter<RoomOp, ReplicaSnapshot[]>(ROOM_ADAPTER, BROKER_URL)
+const supabase  = createSupabaseRest(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+const banStore  = createBanStore(BAN_STORE, supabase)
+const roomAccess = createRoomAccess(supabase)
+const mirror    = createSupabaseMirror(supabase)
+// Active bans by roomId → userId; they outlive the room, so not part of RoomState
+const bans      = new Map<string, Map<string, Ban>>()
 
-interface Member {
-  userId:   string
-  username: string
-  socketId: string   // latest socket ID (re-join updates this)
-  joinedAt: string
-}
+metrics.gauge('rooms_active', 'Rooms held in memory', () => rooms.size)
+metrics.gauge('sockets_connected', 'Open socket.io connections', () => io.engine.clientsCount)
+metrics.gauge('room_members', 'Members per room, by connection state', () =>
+  Array.from(rooms).flatMap<[Labels, number]>(([roomId, room]) => {
+    const members = Array.from(room.members.values())
+    const online  = members.filter(m => m.connection === 'online').length
+    return [
+      [{ room_id: roomId, connection: 'online' }, online],
+      [{ room_id: roomId, connection: 'reconnecting' }, members.length - online],
+    ]
+  }))
 
-interface Song {
-  id: string; title: string; artist: string
-  url: string; source: string; coverUrl?: string; duration?: number
+function persistRoom(roomId: string, room: RoomState) {
+  roomStore.save(snapshotRoom(roomId, room))
 }
 
-interface RoomState {
-  // Members keyed by userId (not socketId) to prevent duplicates
-  members:     Map<string, Member>
-  // socketId → userId mapping for disconnect handling
-  socketToUser: Map<string, string>
-  hostUserId:  string | null
-  currentSong: Song | null
-  position:    number   // playback position at lastSync
-  status:      'playing' | 'paused' | 'idle'
-  lastSync:    number   // Date.now() when position was last updated
+function deleteRoom(roomId: string) {
+  const room = rooms.get(roomId)
+  if (room?.endTimer) clearTimeout(room.endTimer)
+  rooms.delete(roomId)
+  roomStore.remove(roomId)
 }
 
-const rooms = new Map<string, RoomState>()
-
 function getRoom(roomId: string): RoomState {
   if (!rooms.has(roomId)) {
     rooms.set(roomId, {
       members:      new Map(),
       socketToUser: new Map(),
       hostUserId:   null,
+      djUserIds:    new Set(),
+      mutedUserIds: new Set(),
+      messages:     [],
+      reactions:    [],
+      telemetry:    new Map(),
+      skipVotes:    new Set(),
+      seq:          0,
+      recent:       [],
+      replayFrom:   1,
+      playbackVersion: 0,
       currentSong:  null,
+      queue:        [],
+      queueLoaded:  false,
       position:     0,
       status:       'idle',
       lastSync:     Date.now(),
@@ -78,51 +250,504 @@ function getCurrentPosition(room: RoomState): number {
   return room.position + elapsed
 }
 
+/**
+ * Every room broadcast goes through here: numbered with the room's next seq and
+ * buffered so a member who reconnects can catch up (join_room `since`).
+ * `except` is the sender of a relay — skipped now and on replay.
+ */
+function emitToRoom<E extends SequencedEvent>(
+  roomId: string, room: RoomState, event: E, payload: Omit<ServerEvent<E>, 'seq'>,
+  except?: Pick<OpContext, 'socketId' | 'userId'>,
+) {
+  const seq  = ++room.seq
+  const full = { ...payload, seq } as ServerEvent<E>
+
+  if (LATEST_WINS.has(event)) room.recent = room.recent.filter(e => e.event !== event)
+  room.recent.push({ seq, event, payload: full, exceptUserId: except?.userId ?? undefined } as BufferedEvent)
+  if (room.recent.length > REPLAY_HISTORY) {
+    const dropped = room.recent.splice(0, room.recent.length - REPLAY_HISTORY)
+    room.replayFrom = dropped[dropped.length - 1].seq + 1
+  }
+
+  const target = except ? io.to(roomId).except(except.socketId) : io.to(roomId)
+  // Same generic-event-name limitation as socket.on in the connection handler
+  target.emit(event as SequencedEvent, full as never)
+}
+
+/** What a rejoining user missed after `since`, or null if the buffer doesn't reach back that far */
+function missedEvents(room: RoomState, since: number, userId: string): BufferedEvent[] | null {
+  if (since > room.seq || since + 1 < room.replayFrom) return null
+  return room.recent.filter(e => e.seq > since && e.exceptUserId !== userId)
+}
+
+/** The queue is only sent once it is known, so clients never wipe a DB queue with [] */
+function serializeQueue(room: RoomState): Song[] | undefined {
+  return room.queueLoaded ? room.queue : undefined
+}
+
+function broadcastQueue(roomId: string, room: RoomState) {
+  emitToRoom(roomId, room, 'queue_update', { room_id: roomId, queue: room.queue })
+  persistRoom(roomId, room)
+}
+
+/**
+ * (Re)arms the end-of-song timer from the server's own position clock.
+ * Call after anything that changes currentSong, position or status.
+ */
+function scheduleAutoAdvance(roomId: string, room: RoomState) {
+  if (room.endTimer) clearTimeout(room.endTimer)
+  room.endTimer = undefined
+
+  const song = room.currentSong
+  if (room.status !== 'playing' || !song?.duration) return
+
+  const remainingMs = (song.duration - getCurrentPosition(room)) * 1000
+  room.endTimer = setTimeout(() => {
+    room.endTimer = undefined
+    if (rooms.get(roomId) !== room || room.currentSong?.id !== song.id) return
+    // Every replica's timer fires; the first op advances and the rest find another song playing
+    adapter.publish({ type: 'song_ended', roomId, songId: song.id })
+  }, Math.max(0, remainingMs) + AUTO_ADVANCE_GRACE_MS)
+}
+
+/** Pops the head of the queue into currentSong and tells everyone (including sender) */
+function advanceQueue(roomId: string, room: RoomState) {
+  const next = room.queue.shift() ?? null
+  room.currentSong = next
+  room.skipVotes.clear()
+  room.position    = 0
+  room.status      = next ? 'playing' : 'idle'
+  room.lastSync    = Date.now()
+  room.playbackVersion++
+
+  // server_time lets listeners start the song without waiting for a host heartbeat
+  emitToRoom(roomId, room, 'song_change', {
+    room_id:     roomId,
+    song:        next,
+    server_time: room.lastSync,
+    version:     room.playbackVersion,
+  })
+  scheduleAutoAdvance(roomId, room)
+  broadcastQueue(roomId, room)
+  // The host client writes the row too, but the server may advance with no host online.
+  // One write per advance: the instance whose op this is
+  if (applyingOpFrom === adapter.instanceId) {
+    mirror.saveRoom(roomId, {
+      current_song: next && { ...next, position: 0, startedAt: room.lastSync },
+      queue:        room.queue,
+      status:       room.status,
+    })
+  }
+  console.log(`[Room ${roomId.slice(0,8)}] ⏭ Advance → ${next ? next.title : '(queue empty)'}`)
+}
+
+function roleOf(room: RoomState, userId: string): MemberRole {
+  if (room.hostUserId === userId) return 'host'
+  return room.djUserIds.has(userId) ? 'dj' : 'listener'
+}
+
 function serializeMembers(room: RoomState, roomId: string) {
   return Array.from(room.members.values()).map(m => ({
     user_id:   m.userId,
     username:  m.username,
     room_id:   roomId,
     joined_at: m.joinedAt,
+    connection: m.connection,
+    role:      roleOf(room, m.userId),
+    health:    m.health,
+    chat_muted: room.mutedUserIds.has(m.userId),
   }))
 }
 
-// ── Connection handler ───────────────────────────────────────────────────────
+function broadcastMembers(roomId: string, room: RoomState) {
+  emitToRoom(roomId, room, 'members_update', {
+    room_id: roomId,
+    host_id: room.hostUserId,
+    members: serializeMembers(room, roomId),
+  })
+}
 
-io.on('connection', (socket: Socket) => {
-  let currentRoomId: string | null = null
-  let currentUserId: string | null = null
+/** Hands host to the longest-present online member (or nobody if there is none) */
+function reassignHost(roomId: string, room: RoomState) {
+  const newHost = Array.from(room.members.values()).find(m => m.connection === 'online')
+  room.hostUserId = newHost?.userId ?? null
+  if (newHost) {
+    // Counted once per cluster — by the instance the new host is connected to
+    if (io.sockets.sockets.has(newHost.socketId)) hostReassignTotal.inc()
+    room.djUserIds.delete(newHost.userId)
+    room.mutedUserIds.delete(newHost.userId)
+    console.log(`[Room ${roomId.slice(0,8)}] New host: "${newHost.username}"`)
+    io.to(newHost.socketId).emit('promoted_to_host', { room_id: roomId })
+  }
+  persistRoom(roomId, room)
+}
 
-  console.log(`[+] ${socket.id}`)
+function serializeMessage(roomId: string, m: ChatMessage) {
+  return {
+    id:         m.id,
+    room_id:    roomId,
+    user_id:    m.userId,
+    username:   m.username,
+    text:       m.text,
+    created_at: new Date(m.createdAt).toISOString(),
+  }
+}
 
-  // ── join_room ──────────────────────────────────────────────────────────────
-  socket.on('join_room', ({ room_id, user_id, username }: {
-    room_id: string; user_id: string; username: string
-  }) => {
-    if (!room_id || !user_id) return
-
-    // Leave previous room if any
-    if (currentRoomId && currentRoomId !== room_id) {
-      doLeave(currentRoomId)
-    }
+// A messages row (or chat_message on the wire) back into the room's form
+function parseMessage(m: WireChatMessage): ChatMessage {
+  return {
+    id:        m.id,
+    userId:    m.user_id,
+    username:  m.username,
+    text:      m.text,
+    createdAt: Date.parse(m.created_at),
+  }
+}
+
+function serializeReaction(roomId: string, r: Reaction) {
+  return {
+    id:         r.id,
+    room_id:    roomId,
+    user_id:    r.userId,
+    song_id:    r.songId,
+    emoji:      r.emoji,
+    position:   r.position,
+    created_at: new Date(r.createdAt).toISOString(),
+  }
+}
+
+/** Reactions recorded against the song that is playing now */
+function currentSongReactions(roomId: string, room: RoomState) {
+  const songId = room.currentSong?.id
+  return songId
+    ? room.reactions.filter(r => r.songId === songId).map(r => serializeReaction(roomId, r))
+    : []
+}
+
+/** Per-member drift history plus a room summary over everyone's latest fresh sample */
+function serializeTelemetry(roomId: string, room: RoomState) {
+  const now = Date.now()
+  const members = Array.from(room.telemetry.entries())
+    .filter(([userId]) => room.members.has(userId))
+    .map(([userId, t]) => ({
+      user_id:  userId,
+      username: room.members.get(userId)!.username,
+      seeks:    t.seeks,
+      samples:  t.samples,
+    }))
+
+  const latest = members
+    .map(m => m.samples[m.samples.length - 1])
+    .filter(s => s && now - s.at < TELEMETRY_STALE_MS)
+  const avg = (xs: number[]) => xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0
+
+  return {
+    room_id:         roomId,
+    server_time:     now,
+    server_position: getCurrentPosition(room),
+    status:          room.status,
+    song_id:         room.currentSong?.id ?? null,
+    summary: {
+      reporting:     latest.length,
+      avg_abs_drift: avg(latest.map(s => Math.abs(s.drift))),
+      max_abs_drift: Math.max(0, ...latest.map(s => Math.abs(s.drift))),
+      avg_rtt:       avg(latest.map(s => s.rtt)),
+      total_seeks:   members.reduce((sum, m) => sum + m.seeks, 0),
+    },
+    members,
+  }
+}
+
+/** Votes only count while their member is connected; null when nothing is playing */
+function serializeSkipVotes(room: RoomState) {
+  if (!room.currentSong) return null
+  const online = Array.from(room.members.values()).filter(m => m.connection === 'online')
+  const voters = online.filter(m => room.skipVotes.has(m.userId)).map(m => m.userId)
+  return {
+    song_id: room.currentSong.id,
+    votes:   voters.length,
+    needed:  Math.max(1, Math.ceil(online.length * SKIP_VOTE_THRESHOLD)),
+    voters,
+  }
+}
+
+/** Skips once enough connected members voted, otherwise broadcasts the live tally */
+function tallySkipVotes(roomId: string, room: RoomState) {
+  const tally = serializeSkipVotes(room)
+  if (!tally) return
+  if (tally.votes > 0 && tally.votes >= tally.needed) {
+    console.log(`[Room ${roomId.slice(0,8)}] 🗳 Vote skip (${tally.votes}/${tally.needed})`)
+    advanceQueue(roomId, room)
+    return
+  }
+  emitToRoom(roomId, room, 'skip_votes', { room_id: roomId, ...tally })
+}
+
+/** Everything a joiner needs to catch up mid-session */
+function serializeRoomState(roomId: string, room: RoomState): RoomStateEvent {
+  return {
+    room_id:     roomId,
+    seq:         room.seq,
+    version:     room.playbackVersion,
+    currentSong: room.currentSong,
+    queue:       serializeQueue(room),
+    position:    getCurrentPosition(room),
+    status:      room.status,
+    server_time: Date.now(),
+    host_id:     room.hostUserId,
+    members:     serializeMembers(room, roomId),
+    skip_votes:  serializeSkipVotes(room),
+    messages:    room.messages.map(m => serializeMessage(roomId, m)),
+    reactions:   currentSongReactions(roomId, room),
+  }
+}
+
+/** Drops a member for good: deletes an empty room, otherwise re-hosts and broadcasts */
+function removeMember(roomId: string, room: RoomState, userId: string) {
+  const member = room.members.get(userId)
+  if (!member) return
+  if (member.leaveTimer) clearTimeout(member.leaveTimer)
+  room.members.delete(userId)
+  room.djUserIds.delete(userId)
+  room.telemetry.delete(userId)
+  console.log(`[Room ${roomId.slice(0,8)}] "${member.username}" left (${room.members.size} remaining)`)
+
+  if (room.members.size === 0) {
+    deleteRoom(roomId)
+    console.log(`[Room ${roomId.slice(0,8)}] Empty — deleted`)
+    return
+  }
+
+  if (room.hostUserId === userId) reassignHost(roomId, room)
+  broadcastMembers(roomId, room)
+  // Fewer voters needed now — the pending votes may be enough
+  if (room.skipVotes.size) tallySkipVotes(roomId, room)
+}
+
+/** One line per room for GET /rooms */
+function summarizeRoom(roomId: string, room: RoomState) {
+  const members = Array.from(room.members.values())
+  return {
+    room_id:      roomId,
+    host_id:      room.hostUserId,
+    status:       room.status,
+    current_song: room.currentSong && { id: room.currentSong.id, title: room.currentSong.title },
+    position:     getCurrentPosition(room),
+    members:      members.length,
+    online:       members.filter(m => m.connection === 'online').length,
+    queue_length: room.queue.length,
+  }
+}
+
+/** GET /rooms/:id — live state as the server sees it (no chat or reactions) */
+function describeRoom(roomId: string, room: RoomState) {
+  return {
+    room_id:      roomId,
+    host_id:      room.hostUserId,
+    dj_ids:       [...room.djUserIds],
+    status:       room.status,
+    current_song: room.currentSong,
+    position:     getCurrentPosition(room),
+    server_time:  Date.now(),
+    queue:        serializeQueue(room) ?? null,
+    members:      serializeMembers(room, roomId),
+    skip_votes:   serializeSkipVotes(room),
+  }
+}
 
-    currentRoomId = room_id
-    currentUserId = user_id
-    socket.join(room_id)
+/** Takes every socket of this user out of the room and drops the member */
+function kickMember(roomId: string, room: RoomState, userId: string, reason: string): boolean {
+  const member = room.members.get(userId)
+  if (!member) return false
+
+  for (const [socketId, uid] of room.socketToUser) {
+    if (uid !== userId) continue
+    io.to(socketId).emit('kicked', { room_id: roomId, reason })
+    io.in(socketId).socketsLeave(roomId)
+    room.socketToUser.delete(socketId)
+  }
+  console.log(`[Room ${roomId.slice(0,8)}] 👢 "${member.username}" kicked`)
+  removeMember(roomId, room, userId)
+  return true
+}
+
+function addBan(ban: Ban) {
+  const roomBans = bans.get(ban.roomId) ?? new Map<string, Ban>()
+  roomBans.set(ban.userId, ban)
+  bans.set(ban.roomId, roomBans)
+}
+
+/** The user's ban from this room, if it hasn't run out (expired ones are dropped here) */
+function activeBan(roomId: string, userId: string): Ban | null {
+  const roomBans = bans.get(roomId)
+  const ban      = roomBans?.get(userId)
+  if (!roomBans || !ban) return null
+  if (isActive(ban)) return ban
+  roomBans.delete(userId)
+  if (!roomBans.size) bans.delete(roomId)
+  return null
+}
+
+/** Sends everyone out and forgets the room (the DB row is untouched) */
+function closeRoom(roomId: string, room: RoomState, reason: string) {
+  for (const m of room.members.values()) if (m.leaveTimer) clearTimeout(m.leaveTimer)
+  io.to(roomId).emit('room_closed', { room_id: roomId, reason })
+  io.in(roomId).socketsLeave(roomId)
+  deleteRoom(roomId)
+  console.log(`[Room ${roomId.slice(0,8)}] 🔒 Closed`)
+}
+
+/**
+ * Connection gone, but not an explicit leave — keep the member (and any host
+ * role) for a grace window so a network blip or page reload doesn't reshuffle the room
+ */
+function markReconnecting(roomId: string, room: RoomState, member: Member) {
+  member.connection = 'reconnecting'
+  armLeaveTimer(roomId, member)
+  console.log(`[Room ${roomId.slice(0,8)}] "${member.username}" reconnecting (${DISCONNECT_GRACE_MS / 1000}s grace)`)
+  broadcastMembers(roomId, room)
+  if (room.skipVotes.size) tallySkipVotes(roomId, room)
+}
+
+/** Armed on every replica; the first to fire removes the member, later ones are no-ops */
+function armLeaveTimer(roomId: string, member: Member) {
+  member.leaveTimer = setTimeout(() => {
+    adapter.publish({ type: 'grace_expired', roomId, socketId: member.socketId, userId: member.userId })
+  }, DISCONNECT_GRACE_MS)
+}
+
+/** Explicit leave of one socket; the member goes only if that was their current socket */
+function leaveRoom(roomId: string, socketId: string, fallbackUserId: string | null, socket?: SyncySocket) {
+  const room = rooms.get(roomId)
+  if (!room) return
+
+  // Find the user by socketId (handle re-joins where socketId changed)
+  const userId = room.socketToUser.get(socketId) || fallbackUserId
+  room.socketToUser.delete(socketId)
+  socket?.leave(roomId)
+
+  // Only remove if this socket is the CURRENT socket for that user
+  if (userId && room.members.get(userId)?.socketId === socketId) {
+    removeMember(roomId, room, userId)
+  }
+}
+
+// ── Permissions ──────────────────────────────────────────────────────────────
+
+// Only the instance holding the socket answers (and counts) a rejection
+function reject(
+  socket: SyncySocket | undefined, event: string, roomId: string | undefined, code: SocketRejectCode, detail?: string,
+) {
+  if (!socket) return
+  socket.emit('error', { event, room_id: roomId, code })
+  rejectedTotal.inc({ event, code })
+  console.warn(`[Room ${(roomId ?? '?').slice(0,8)}] ⛔ ${event} from ${socket.id}: ${code}${detail ? ` (${detail})` : ''}`)
+}
+
+type Caller = Pick<OpContext, 'socketId' | 'socket'>
+
+/** Returns the room if this socket's user is its host, otherwise rejects and returns null */
+function authorizeHost({ socketId, socket }: Caller, event: string, roomId: string): RoomState | null {
+  const room   = rooms.get(roomId)
+  const userId = room?.socketToUser.get(socketId)
+  if (!room || !userId) {
+    reject(socket, event, roomId, 'not_in_room')
+    return null
+  }
+  if (room.hostUserId !== userId) {
+    reject(socket, event, roomId, 'not_host')
+    return null
+  }
+  return room
+}
+
+/** Same as authorizeHost, but DJs pass too (playback and queue control) */
+function authorizeDj({ socketId, socket }: Caller, event: string, roomId: string): RoomState | null {
+  const room   = rooms.get(roomId)
+  const userId = room?.socketToUser.get(socketId)
+  if (!room || !userId) {
+    reject(socket, event, roomId, 'not_in_room')
+    return null
+  }
+  if (roleOf(room, userId) === 'listener') {
+    reject(socket, event, roomId, 'not_dj')
+    return null
+  }
+  return room
+}
+
+/**
+ * Applies a playback version from a client — see acceptsVersion. Anything
+ * older was sent before the sender saw a newer change and is dropped quietly.
+ */
+function acceptVersion({ socket }: Caller, event: string, room: RoomState, version: number, heartbeat = false): boolean {
+  if (acceptsVersion(room.playbackVersion, version, heartbeat)) {
+    room.playbackVersion = version
+    return true
+  }
+  if (socket) staleDroppedTotal.inc({ event })
+  return false
+}
+
+// ── Handshake auth ───────────────────────────────────────────────────────────
+// Connections without a valid token are still accepted so the client gets a
+// proper `error` event instead of an opaque connect_error. `on()` refuses
+// every event but time_sync and refresh_auth until the token checks out.
+
+const verifyToken = (token: unknown): AuthResult =>
+  JWT_SECRET ? verifyAccessToken(token, JWT_SECRET) : { ok: false, code: 'invalid_token' }
+
+io.use((socket, next) => {
+  socket.data.auth = verifyToken(socket.handshake.auth?.token)
+  next()
+})
+
+/** Re-checks expiry at use time — a socket can outlive its handshake token */
+function currentAuth(socket: SyncySocket): AuthResult {
+  const auth = socket.data.auth
+  if (!auth.ok) return auth
+  if (auth.claims.exp * 1000 <= Date.now()) return { ok: false, code: 'invalid_token' }
+  return auth
+}
+
+// ── Replicated handlers ──────────────────────────────────────────────────────
+// Run on every instance, in op order, after the publishing instance has rate
+// limited and validated the event. Authorization happens here, against the
+// replica as of this op; only the instance holding the socket hears back.
+
+const applyEvent: { [E in ReplicatedEvent]: (ctx: OpContext, payload: EventPayload<E>) => void } = {
+  // ── join_room ──────────────────────────────────────────────────────────────
+  join_room(ctx, { room_id, username, queue, since }) {
+    const user_id = ctx.userId
+    if (!user_id) return
+    ctx.socket?.join(room_id)
 
     const room = getRoom(room_id)
-    const isRejoin = room.members.has(user_id)
+    const existing = room.members.get(user_id)
+    const isRejoin = !!existing
+    // Still a member (grace window, or another tab) — same room, so its seqs still apply
+    const missed = existing && since !== undefined ? missedEvents(room, since, user_id) : null
+
+    // Back within the grace window — cancel the pending removal, role is kept
+    if (existing?.leaveTimer) clearTimeout(existing.leaveTimer)
 
     // Upsert member (deduplication by userId)
     room.members.set(user_id, {
       userId:   user_id,
-      username: username || 'Anonymous',
-      socketId: socket.id,
-      joinedAt: isRejoin
-        ? (room.members.get(user_id)?.joinedAt ?? new Date().toISOString())
-        : new Date().toISOString(),
+      username,
+      socketId: ctx.socketId,
+      instanceId: ctx.instanceId,
+      joinedAt: existing?.joinedAt ?? new Date().toISOString(),
+      connection: 'online',
+      health:   existing?.health,
     })
-    room.socketToUser.set(socket.id, user_id)
+    room.socketToUser.set(ctx.socketId, user_id)
+
+    // Seed the queue from the joiner's copy of the DB row (first one wins)
+    if (!room.queueLoaded && queue) {
+      room.queue       = queue
+      room.queueLoaded = true
+    }
 
     // First member in room becomes host
     if (!room.hostUserId) {
@@ -130,171 +755,743 @@ io.on('connection', (socket: Socket) => {
       console.log(`[Room ${room_id.slice(0,8)}] Host: "${username}"`)
     }
 
-    console.log(`[Room ${room_id.slice(0,8)}] "${username}" ${isRejoin ? 're-' : ''}joined (${room.members.size} members)`)
+    console.log(`[Room ${room_id.slice(0,8)}] "${username}" ${isRejoin ? 're-' : ''}joined (${room.members.size} members)${missed ? ` — replaying ${missed.length}` : ''}`)
+    persistRoom(room_id, room)
+
+    // Catch up first — the broadcasts below carry newer seqs than anything missed
+    for (const e of missed ?? []) ctx.socket?.emit(e.event, e.payload as never)
 
     // Tell EVERYONE (including joiner) about updated member list
-    io.to(room_id).emit('members_update', {
-      room_id,
-      members: serializeMembers(room, room_id),
-    })
+    broadcastMembers(room_id, room)
+    if (room.skipVotes.size) tallySkipVotes(room_id, room)
 
-    // Tell THIS socket the current room state (for mid-session sync)
-    socket.emit('room_state', {
-      room_id,
-      currentSong: room.currentSong,
-      position:    getCurrentPosition(room),
-      status:      room.status,
-      server_time: Date.now(),
-      members:     serializeMembers(room, room_id),
-    })
-  })
+    // Otherwise, tell THIS socket the current room state (for mid-session sync)
+    if (!missed) ctx.socket?.emit('room_state', serializeRoomState(room_id, room))
+  },
 
-  // ── request_state (explicit re-sync request) ──────────────────────────────
-  socket.on('request_state', ({ room_id }: { room_id: string }) => {
-    const room = rooms.get(room_id)
+  // ── leave_room (explicit) ─────────────────────────────────────────────────
+  leave_room(ctx, { room_id }) {
+    leaveRoom(room_id, ctx.socketId, ctx.userId, ctx.socket)
+  },
+
+  // ── sync_position (host heartbeat / DJ seek → everyone else) ─────────────
+  sync_position(ctx, event) {
+    const room = authorizeDj(ctx, 'sync_position', event.room_id)
     if (!room) return
 
-    socket.emit('room_state', {
-      room_id,
-      currentSong: room.currentSong,
-      position:    getCurrentPosition(room),
-      status:      room.status,
-      server_time: Date.now(),
-      members:     serializeMembers(room, room_id),
-    })
-  })
+    // Heartbeats repeat the version, seeks bump it — a host that hasn't heard a DJ's control yet is behind
+    if (!acceptVersion(ctx, 'sync_position', room, event.version, true)) return
 
-  // ── sync_position (host heartbeat → listeners) ────────────────────────────
-  socket.on('sync_position', (event: {
-    room_id: string; position: number; status: string; server_time: number
-  }) => {
-    const room = rooms.get(event.room_id)
-    if (room) {
-      room.position = event.position
-      room.status   = event.status as RoomState['status']
-      room.lastSync = Date.now()
-    }
-    // Relay to everyone EXCEPT sender (host)
-    socket.to(event.room_id).emit('sync_position', {
+    room.position = event.position
+    room.status   = event.status
+    room.lastSync = Date.now()
+    persistRoom(event.room_id, room)
+    scheduleAutoAdvance(event.room_id, room)
+    // Relay to everyone EXCEPT sender — from a DJ this reaches the host too
+    emitToRoom(event.room_id, room, 'sync_position', {
       ...event,
       server_time: Date.now(),
-    })
-  })
+    }, ctx)
+  },
 
   // ── play ──────────────────────────────────────────────────────────────────
-  socket.on('play', ({ room_id, position }: { room_id: string; position: number }) => {
-    const room = rooms.get(room_id)
-    if (room) {
-      room.position = position
-      room.status   = 'playing'
-      room.lastSync = Date.now()
-    }
-    socket.to(room_id).emit('sync_position', {
+  play(ctx, { room_id, position, version }) {
+    const room = authorizeDj(ctx, 'play', room_id)
+    if (!room || !acceptVersion(ctx, 'play', room, version)) return
+
+    room.position = position
+    room.status   = 'playing'
+    room.lastSync = Date.now()
+    persistRoom(room_id, room)
+    scheduleAutoAdvance(room_id, room)
+    emitToRoom(room_id, room, 'sync_position', {
       room_id,
       position,
       status:      'playing',
       server_time: Date.now(),
-    })
+      version,
+    }, ctx)
     console.log(`[Room ${room_id.slice(0,8)}] ▶ Play @ ${position.toFixed(2)}s`)
-  })
+  },
 
   // ── pause ─────────────────────────────────────────────────────────────────
-  socket.on('pause', ({ room_id, position }: { room_id: string; position: number }) => {
-    const room = rooms.get(room_id)
-    if (room) {
-      room.position = position
-      room.status   = 'paused'
-      room.lastSync = Date.now()
-    }
-    socket.to(room_id).emit('sync_position', {
+  pause(ctx, { room_id, position, version }) {
+    const room = authorizeDj(ctx, 'pause', room_id)
+    if (!room || !acceptVersion(ctx, 'pause', room, version)) return
+
+    room.position = position
+    room.status   = 'paused'
+    room.lastSync = Date.now()
+    persistRoom(room_id, room)
+    scheduleAutoAdvance(room_id, room)
+    emitToRoom(room_id, room, 'sync_position', {
       room_id,
       position,
       status:      'paused',
       server_time: Date.now(),
-    })
+      version,
+    }, ctx)
     console.log(`[Room ${room_id.slice(0,8)}] ⏸ Pause @ ${position.toFixed(2)}s`)
-  })
+  },
 
   // ── song_change ───────────────────────────────────────────────────────────
-  socket.on('song_change', ({ room_id, song }: { room_id: string; song: Song | null }) => {
-    const room = rooms.get(room_id)
-    if (room) {
-      room.currentSong = song
-      room.position    = 0
-      room.status      = song ? 'playing' : 'idle'
-      room.lastSync    = Date.now()
-    }
-    socket.to(room_id).emit('song_change', { room_id, song })
+  song_change(ctx, { room_id, song, version }) {
+    const room = authorizeDj(ctx, 'song_change', room_id)
+    if (!room || !acceptVersion(ctx, 'song_change', room, version)) return
+
+    room.currentSong = song
+    room.skipVotes.clear()
+    room.position    = 0
+    room.status      = song ? 'playing' : 'idle'
+    room.lastSync    = Date.now()
+    persistRoom(room_id, room)
+    scheduleAutoAdvance(room_id, room)
+    emitToRoom(room_id, room, 'song_change', { room_id, song, server_time: room.lastSync, version }, ctx)
     if (song) console.log(`[Room ${room_id.slice(0,8)}] 🎵 Song: ${song.title}`)
-  })
+  },
 
-  // ── next_song ─────────────────────────────────────────────────────────────
-  socket.on('next_song', ({ room_id }: { room_id: string }) => {
+  // ── seed_queue (DB queue arrived after join_room) ─────────────────────────
+  seed_queue(ctx, { room_id, queue }) {
     const room = rooms.get(room_id)
-    if (room) {
-      room.position = 0
-      room.lastSync = Date.now()
+    if (!room || room.queueLoaded) return
+    if (!room.socketToUser.has(ctx.socketId)) return
+
+    room.queue       = queue
+    room.queueLoaded = true
+    broadcastQueue(room_id, room)
+  },
+
+  // ── add_song ──────────────────────────────────────────────────────────────
+  add_song(ctx, { room_id, song, index }) {
+    const room = rooms.get(room_id)
+    if (!room) return
+    const userId = room.socketToUser.get(ctx.socketId)
+    if (!userId) return
+    // Anyone can append a song; jumping the queue is a DJ action
+    if (typeof index === 'number' && roleOf(room, userId) === 'listener') {
+      reject(ctx.socket, 'add_song', room_id, 'not_dj')
+      return
     }
-    socket.to(room_id).emit('next_song', { room_id })
-  })
+
+    room.queueLoaded = true
+    // Same track added twice (e.g. two people at once) is queued once
+    if (room.queue.some(s => s.id === song.id)) return
+
+    const at = typeof index === 'number'
+      ? Math.max(0, Math.min(index, room.queue.length))
+      : room.queue.length
+    room.queue.splice(at, 0, song)
+    console.log(`[Room ${room_id.slice(0,8)}] ➕ Queued: ${song.title} (${room.queue.length} in queue)`)
+
+    // Nothing playing → start the new song straight away
+    if (!room.currentSong) advanceQueue(room_id, room)
+    else broadcastQueue(room_id, room)
+  },
+
+  // ── remove_song ───────────────────────────────────────────────────────────
+  remove_song(ctx, { room_id, song_id }) {
+    const room = authorizeDj(ctx, 'remove_song', room_id)
+    if (!room) return
+
+    const before = room.queue.length
+    room.queue = room.queue.filter(s => s.id !== song_id)
+    if (room.queue.length !== before) broadcastQueue(room_id, room)
+  },
+
+  // ── move_song (reorder by id, so concurrent edits don't clobber) ─────────
+  move_song(ctx, { room_id, song_id, to_index }) {
+    const room = authorizeDj(ctx, 'move_song', room_id)
+    if (!room) return
+
+    const from = room.queue.findIndex(s => s.id === song_id)
+    if (from === -1) return
+    const to = Math.max(0, Math.min(to_index, room.queue.length - 1))
+    if (from === to) return
+
+    const [moved] = room.queue.splice(from, 1)
+    room.queue.splice(to, 0, moved)
+    broadcastQueue(room_id, room)
+  },
+
+  // ── next_song (advance queue) ─────────────────────────────────────────────
+  // song_id = "skip this one": a skip that raced the server's own auto-advance
+  // (or a double click) would otherwise skip the following song too
+  next_song(ctx, { room_id, song_id }) {
+    const room = authorizeDj(ctx, 'next_song', room_id)
+    if (!room) return
+    if (song_id && room.currentSong?.id !== song_id) return
+
+    emitToRoom(room_id, room, 'next_song', { room_id }, ctx)
+    advanceQueue(room_id, room)
+  },
+
+  // ── transfer_host (host hands over; the old host stays on as a DJ) ──────
+  transfer_host(ctx, { room_id, user_id }) {
+    const room = authorizeHost(ctx, 'transfer_host', room_id)
+    if (!room) return
+
+    const target = room.members.get(user_id)
+    if (!target || target.connection !== 'online' || user_id === room.hostUserId) {
+      reject(ctx.socket, 'transfer_host', room_id, 'invalid_target')
+      return
+    }
+
+    if (room.hostUserId) room.djUserIds.add(room.hostUserId)
+    room.djUserIds.delete(user_id)
+    room.mutedUserIds.delete(user_id)
+    room.hostUserId = user_id
+    io.to(target.socketId).emit('promoted_to_host', { room_id })
+    console.log(`[Room ${room_id.slice(0,8)}] 👑 Host transferred to "${target.username}"`)
+    persistRoom(room_id, room)
+    broadcastMembers(room_id, room)
+  },
+
+  // ── grant_role / revoke_role (host manages DJs) ───────────────────────────
+  grant_role:  (ctx, payload) => setDj(ctx, 'grant_role', payload),
+  revoke_role: (ctx, payload) => setDj(ctx, 'revoke_role', payload),
+
+  // ── kick_member / ban_member (host only; a ban also blocks join_room) ─────
+  kick_member(ctx, { room_id, user_id, reason }) {
+    const room = authorizeModeration(ctx, 'kick_member', room_id, user_id)
+    if (!room) return
+    if (!room.members.has(user_id)) {
+      reject(ctx.socket, 'kick_member', room_id, 'invalid_target')
+      return
+    }
+    if (ctx.socket) moderationTotal.inc({ action: 'kick' })
+    kickMember(room_id, room, user_id, reason ?? 'Removed by the host')
+  },
+
+  ban_member(ctx, { room_id, user_id, reason, duration_s }) {
+    const room = authorizeModeration(ctx, 'ban_member', room_id, user_id)
+    if (!room || !ctx.userId) return
+
+    const now = Date.now()
+    const ban: Ban = {
+      roomId:    room_id,
+      userId:    user_id,
+      bannedBy:  ctx.userId,
+      reason,
+      createdAt: now,
+      expiresAt: duration_s === undefined ? null : now + duration_s * 1000,
+    }
+    addBan(ban)
+    // Every replica records it; the one it was published from writes it down
+    if (ctx.instanceId === adapter.instanceId) banStore.save(ban)
+    if (ctx.socket) moderationTotal.inc({ action: 'ban' })
+
+    const name = room.members.get(user_id)?.username ?? user_id
+    console.log(`[Room ${room_id.slice(0,8)}] 🚫 "${name}" banned ${duration_s === undefined ? 'permanently' : `for ${duration_s}s`}`)
+    kickMember(room_id, room, user_id, reason ?? 'Banned from this room')
+  },
+
+  // ── mute_member / unmute_member (host silences chat + reactions) ──────────
+  mute_member:   (ctx, payload) => setMuted(ctx, 'mute_member', payload),
+  unmute_member: (ctx, payload) => setMuted(ctx, 'unmute_member', payload),
+
+  // ── vote_skip (any member; song_id guards against voting on a stale song) ──
+  vote_skip(ctx, { room_id, song_id }) {
+    const room   = rooms.get(room_id)
+    const userId = room?.socketToUser.get(ctx.socketId)
+    if (!room || !userId) {
+      reject(ctx.socket, 'vote_skip', room_id, 'not_in_room')
+      return
+    }
+    if (!room.currentSong || room.currentSong.id !== song_id || room.skipVotes.has(userId)) return
+
+    room.skipVotes.add(userId)
+    tallySkipVotes(room_id, room)
+  },
+
+  // ── chat_message (server stamps id + time, echoes to everyone incl. sender) ─
+  chat_message(ctx, { room_id, text }) {
+    const room   = rooms.get(room_id)
+    const userId = room?.socketToUser.get(ctx.socketId)
+    const member = userId ? room?.members.get(userId) : undefined
+    if (!room || !member) {
+      reject(ctx.socket, 'chat_message', room_id, 'not_in_room')
+      return
+    }
+    if (room.mutedUserIds.has(member.userId)) {
+      reject(ctx.socket, 'chat_message', room_id, 'muted')
+      return
+    }
+    const body = text.trim()
+    if (!body) return
+
+    const message: ChatMessage = {
+      id:        ctx.id,
+      userId:    member.userId,
+      username:  member.username,
+      text:      body,
+      createdAt: Date.now(),
+    }
+    room.messages.push(message)
+    if (room.messages.length > CHAT_HISTORY) room.messages.splice(0, room.messages.length - CHAT_HISTORY)
+    persistRoom(room_id, room)
+    const wire = serializeMessage(room_id, message)
+    emitToRoom(room_id, room, 'chat_message', wire)
+    if (ctx.instanceId === adapter.instanceId) mirror.saveMessage(wire)
+  },
+
+  // ── member_status (client-reported playback health) ───────────────────────
+  member_status(ctx, { room_id, status }) {
+    const room   = rooms.get(room_id)
+    const userId = room?.socketToUser.get(ctx.socketId)
+    const member = userId ? room?.members.get(userId) : undefined
+    if (!room || !member || member.socketId !== ctx.socketId) return
+    if (member.health === status) return
+
+    member.health = status
+    broadcastMembers(room_id, room)
+  },
+
+  // ── sync_report (client telemetry, slow cadence) ──────────────────────────
+  sync_report(ctx, { room_id, drift, rtt, seeks }) {
+    const room   = rooms.get(room_id)
+    const userId = room?.socketToUser.get(ctx.socketId)
+    if (!room || !userId) return
+
+    const t = room.telemetry.get(userId) ?? { samples: [], seeks: 0 }
+    t.samples.push({ at: Date.now(), drift, rtt })
+    if (t.samples.length > TELEMETRY_SAMPLES) t.samples.splice(0, t.samples.length - TELEMETRY_SAMPLES)
+    t.seeks = seeks
+    room.telemetry.set(userId, t)
+  },
+
+  // ── reaction (relayed to everyone, recorded at the current position) ─────
+  // The per-socket burst limit is applied before publishing, in the connection handler
+  reaction(ctx, { room_id, emoji }) {
+    const room   = rooms.get(room_id)
+    const userId = room?.socketToUser.get(ctx.socketId)
+    if (!room || !userId) {
+      reject(ctx.socket, 'reaction', room_id, 'not_in_room')
+      return
+    }
+    if (room.mutedUserIds.has(userId)) {
+      reject(ctx.socket, 'reaction', room_id, 'muted')
+      return
+    }
+    if (!room.currentSong) return
+
+    const reaction: Reaction = {
+      id:        ctx.id,
+      userId,
+      songId:    room.currentSong.id,
+      emoji,
+      position:  getCurrentPosition(room),
+      createdAt: Date.now(),
+    }
+    room.reactions.push(reaction)
+    if (room.reactions.length > REACTION_HISTORY) room.reactions.splice(0, room.reactions.length - REACTION_HISTORY)
+    persistRoom(room_id, room)
+    emitToRoom(room_id, room, 'reaction', serializeReaction(room_id, reaction))
+  },
 
   // ── vote ──────────────────────────────────────────────────────────────────
-  socket.on('vote', (data) => {
-    if (data.room_id) socket.to(data.room_id).emit('vote', data)
-  })
+  vote(ctx, { room_id, poll_id, song_id }) {
+    const room   = rooms.get(room_id)
+    const userId = room?.socketToUser.get(ctx.socketId)
+    if (!room || !userId) {
+      reject(ctx.socket, 'vote', room_id, 'not_in_room')
+      return
+    }
+    emitToRoom(room_id, room, 'vote', { room_id, poll_id, user_id: userId, song_id }, ctx)
+  },
+}
 
-  // ── leave_room (explicit) ─────────────────────────────────────────────────
-  socket.on('leave_room', ({ room_id }: { room_id: string }) => {
-    doLeave(room_id)
-  })
+function setDj(ctx: OpContext, event: 'grant_role' | 'revoke_role', { room_id, user_id, role }: RolePayload) {
+  const room = authorizeHost(ctx, event, room_id)
+  if (!room) return
 
-  // ── disconnect ────────────────────────────────────────────────────────────
-  socket.on('disconnect', (reason) => {
-    console.log(`[-] ${socket.id} (${reason})`)
-    if (currentRoomId) doLeave(currentRoomId)
-  })
+  const target = room.members.get(user_id)
+  if (role !== 'dj' || !target || user_id === room.hostUserId) {
+    reject(ctx.socket, event, room_id, 'invalid_target')
+    return
+  }
 
-  // ── Internal leave helper ─────────────────────────────────────────────────
-  function doLeave(roomId: string) {
+  if (event === 'grant_role') room.djUserIds.add(user_id)
+  else room.djUserIds.delete(user_id)
+  console.log(`[Room ${room_id.slice(0,8)}] 🎧 "${target.username}" → ${roleOf(room, user_id)}`)
+  persistRoom(room_id, room)
+  broadcastMembers(room_id, room)
+}
+
+/** Host-only, and never against the host themself */
+function authorizeModeration(ctx: OpContext, event: string, roomId: string, userId: string): RoomState | null {
+  const room = authorizeHost(ctx, event, roomId)
+  if (!room) return null
+  if (userId === room.hostUserId) {
+    reject(ctx.socket, event, roomId, 'invalid_target')
+    return null
+  }
+  return room
+}
+
+function setMuted(ctx: OpContext, event: 'mute_member' | 'unmute_member', { room_id, user_id }: { room_id: string; user_id: string }) {
+  const room = authorizeModeration(ctx, event, room_id, user_id)
+  if (!room) return
+
+  const target = room.members.get(user_id)
+  if (!target) {
+    reject(ctx.socket, event, room_id, 'invalid_target')
+    return
+  }
+
+  if (event === 'mute_member') room.mutedUserIds.add(user_id)
+  else room.mutedUserIds.delete(user_id)
+  if (ctx.socket) moderationTotal.inc({ action: event === 'mute_member' ? 'mute' : 'unmute' })
+  console.log(`[Room ${room_id.slice(0,8)}] 🔇 "${target.username}" ${event === 'mute_member' ? 'muted' : 'unmuted'}`)
+  persistRoom(room_id, room)
+  broadcastMembers(room_id, room)
+}
+
+// Instance that published the op being applied — side effects outside the
+// replicas (database writes) happen there only
+let applyingOpFrom = ''
+
+/** The adapter calls this for every op, on every instance, in the same order */
+function applyOp(op: RoomOp, from: string) {
+  applyingOpFrom = from
+  try {
+    switch (op.type) {
+      case 'event': {
+        const ctx: OpContext = {
+          socketId:   op.socketId,
+          socket:     io.sockets.sockets.get(op.socketId),
+          userId:     op.userId,
+          instanceId: from,
+          id:         op.id,
+        }
+        // The union doesn't correlate op.event with op.payload; applyEvent's keys do
+        ;(applyEvent[op.event] as (ctx: OpContext, payload: unknown) => void)(ctx, op.payload)
+        return
+      }
+
+      case 'disconnect': {
+        const room = rooms.get(op.roomId)
+        if (!room) return
+        const userId = room.socketToUser.get(op.socketId) || op.userId
+        room.socketToUser.delete(op.socketId)
+
+        const member = userId ? room.members.get(userId) : undefined
+        // Another tab of this user took over the membership — nothing to do
+        if (!member || member.socketId !== op.socketId) return
+        markReconnecting(op.roomId, room, member)
+        return
+      }
+
+      case 'grace_expired': {
+        const room   = rooms.get(op.roomId)
+        const member = room?.members.get(op.userId)
+        if (room && member?.connection === 'reconnecting' && member.socketId === op.socketId) {
+          removeMember(op.roomId, room, op.userId)
+        }
+        return
+      }
+
+      case 'song_ended': {
+        const room = rooms.get(op.roomId)
+        if (!room?.currentSong || room.currentSong.id !== op.songId) return
+        console.log(`[Room ${op.roomId.slice(0,8)}] ⏱ "${room.currentSong.title}" ended`)
+        advanceQueue(op.roomId, room)
+        return
+      }
+
+      case 'admin_skip': {
+        const room = rooms.get(op.roomId)
+        if (room) advanceQueue(op.roomId, room)
+        return
+      }
+
+      case 'admin_kick': {
+        const room = rooms.get(op.roomId)
+        if (room) kickMember(op.roomId, room, op.userId, op.reason)
+        return
+      }
+
+      case 'admin_close': {
+        const room = rooms.get(op.roomId)
+        if (room) closeRoom(op.roomId, room, op.reason)
+        return
+      }
+
+      case 'restore': {
+        for (const snap of op.snapshots) {
+          if (rooms.has(snap.roomId)) continue
+          const room = restoreRoom(snap)
+          rooms.set(snap.roomId, room)
+          scheduleAutoAdvance(snap.roomId, room)
+        }
+        const roomIds = op.snapshots.map(s => s.roomId)
+        setTimeout(() => adapter.publish({ type: 'settle', roomIds }), RESTORE_GRACE_MS)
+        return
+      }
+
+      case 'settle':
+        settleRestoredRooms(op.roomIds)
+        return
+
+      // Ahead of the join that opens the room; merged in case another join got there first
+      case 'history': {
+        const room  = getRoom(op.roomId)
+        const known = new Set(room.messages.map(m => m.id))
+        room.messages = [...op.messages.filter(m => !known.has(m.id)), ...room.messages].slice(-CHAT_HISTORY)
+        return
+      }
+    }
+  } catch (err) {
+    console.error(`[Adapter] ❌ ${op.type === 'event' ? op.event : op.type} op from ${from} threw:`, err)
+  }
+}
+
+/** After the grace window: drop rooms nobody came back to, re-host those whose host didn't */
+function settleRestoredRooms(roomIds: string[]) {
+  for (const roomId of roomIds) {
     const room = rooms.get(roomId)
-    if (!room) return
+    if (!room) continue
+    if (room.members.size === 0) {
+      deleteRoom(roomId)
+      console.log(`[Room ${roomId.slice(0,8)}] Not reclaimed after restart — deleted`)
+    } else if (!room.hostUserId || !room.members.has(room.hostUserId)) {
+      reassignHost(roomId, room)
+      broadcastMembers(roomId, room)
+    }
+  }
+}
 
-    // Find the user by socketId (handle re-joins where socketId changed)
-    const userId = room.socketToUser.get(socket.id) || currentUserId
-    if (userId) {
-      // Only remove if this socket is the CURRENT socket for that user
-      const member = room.members.get(userId)
-      if (member && member.socketId === socket.id) {
-        room.members.delete(userId)
-        console.log(`[Room ${roomId.slice(0,8)}] "${member.username}" left (${room.members.size} remaining)`)
+/** Another instance went away with its sockets — its members get the usual grace window */
+function dropInstance(instanceId: string) {
+  console.log(`[Adapter] Instance ${instanceId} left`)
+  for (const [roomId, room] of rooms) {
+    for (const member of [...room.members.values()]) {
+      if (member.instanceId !== instanceId || member.connection !== 'online') continue
+      room.socketToUser.delete(member.socketId)
+      if (DISCONNECT_GRACE_MS <= 0) removeMember(roomId, room, member.userId)
+      else markReconnecting(roomId, room, member)
+    }
+  }
+}
+
+/** State from a peer when joining a cluster — timers are per process, so re-arm them */
+function loadReplica(snapshots: ReplicaSnapshot[]) {
+  for (const snap of snapshots) {
+    const room = restoreReplica(snap)
+    rooms.set(snap.roomId, room)
+    scheduleAutoAdvance(snap.roomId, room)
+    for (const member of room.members.values()) {
+      if (member.connection === 'reconnecting') armLeaveTimer(snap.roomId, member)
+    }
+  }
+}
+
+// ── Connection handler ───────────────────────────────────────────────────────
+
+io.on('connection', (socket) => {
+  let currentRoomId: string | null = null
+  let currentUserId: string | null = null
+  let reactionTimes: number[] = []
+  const limiter = createRateLimiter(RATE_LIMITS)
+  const strikes = createStrikeCounter(RATE_LIMIT_STRIKES, RATE_LIMIT_WINDOW_MS)
+
+  console.log(`[+] ${socket.id}`)
+
+  /** Counts a rate-limit hit; true once the socket has been disconnected for it */
+  const strike = (): boolean => {
+    const hits = strikes.strike()
+    if (!hits) return false
+
+    rateLimitKicksTotal.inc()
+    console.warn(`[-] 🚫 ${socket.id} disconnected: ${hits} rate-limit hits in ${RATE_LIMIT_WINDOW_MS / 1000}s`)
+    socket.disconnect(true)
+    return true
+  }
+
+  // join_room may wait on a database check (private rooms). Until it's done,
+  // whatever else this socket sends queues behind it, so ops keep their order.
+  let backlog: Promise<void> | null = null
+  const inOrder = (task: () => void | Promise<void>) => {
+    if (backlog) {
+      backlog = backlog.then(task)
+    } else {
+      const pending = task()
+      if (!pending) return
+      backlog = pending
+    }
+    const tail = backlog = backlog.catch(err => console.error(`[Socket] ❌ ${socket.id} threw:`, err))
+    void tail.then(() => { if (backlog === tail) backlog = null })
+  }
+
+  // Every client event goes through here: rate limit, schema, token, then the
+  // handler (timed for the latency histogram from the schema check on; a
+  // queued handler isn't).
+  // A throw is logged and swallowed so one bad event can't take the socket down.
+  const on = <E extends keyof ClientToServerEvents>(
+    event: E, handler: (payload: EventPayload<E>) => void | Promise<void>,
+  ) => {
+    const listener = (payload: unknown) => {
+      eventsTotal.inc({ event })
+      const rawRoomId = (payload as { room_id?: unknown } | null)?.room_id
+      const roomId    = typeof rawRoomId === 'string' ? rawRoomId : undefined
+
+      if (!limiter.take(event)) {
+        rateLimitedTotal.inc({ event })
+        if (!strike()) reject(socket, event, roomId, 'rate_limited')
+        return
+      }
+
+      const started = performance.now()
+      const result  = validatePayload(event, payload)
+      const auth    = event === 'time_sync' || event === 'refresh_auth' ? null : currentAuth(socket)
+      if (!result.ok) {
+        reject(socket, event, roomId, 'invalid_payload', result.error)
+      } else if (auth && !auth.ok) {
+        reject(socket, event, roomId, auth.code)
+      } else {
+        const payload = result.value
+        try {
+          inOrder(() => handler(payload))
+        } catch (err) {
+          console.error(`[Socket] ❌ ${event} from ${socket.id} threw:`, err)
+        }
       }
-      room.socketToUser.delete(socket.id)
+      eventDuration.observe({ event }, (performance.now() - started) / 1000)
     }
+    // socket.io's overloads can't resolve a generic event name; the payload
+    // type is enforced by `handler` above instead
+    socket.on(event, listener as never)
+  }
 
-    socket.leave(roomId)
+  /** Hands a validated event to every replica — see applyEvent */
+  const publish = <E extends ReplicatedEvent>(event: E, payload: EventPayload<E>) => {
+    adapter.publish({
+      type: 'event', event, payload, socketId: socket.id, userId: currentUserId, id: randomUUID(),
+    } as RoomOp)
+  }
 
-    if (room.members.size === 0) {
-      rooms.delete(roomId)
-      console.log(`[Room ${roomId.slice(0,8)}] Empty — deleted`)
+  // ── join_room ──────────────────────────────────────────────────────────────
+  on('join_room', (payload) => {
+    const auth = currentAuth(socket)
+    if (!auth.ok) {
+      reject(socket, 'join_room', payload.room_id, auth.code)
+      return
+    }
+    if (activeBan(payload.room_id, auth.claims.sub)) {
+      reject(socket, 'join_room', payload.room_id, 'banned')
       return
     }
 
-    // Reassign host if needed
-    if (room.hostUserId === userId) {
-      const allMembers = Array.from(room.members.values())
-      const newHost = allMembers[0]
-      room.hostUserId = newHost?.userId ?? null
-      if (newHost) {
-        console.log(`[Room ${roomId.slice(0,8)}] New host: "${newHost.username}"`)
-        io.to(newHost.socketId).emit('promoted_to_host', { room_id: roomId })
+    // Identity comes from the verified token — any client-sent user_id is ignored
+    const userId = auth.claims.sub
+    const admit  = () => {
+      // Leave previous room if any
+      if (currentRoomId && currentRoomId !== payload.room_id) {
+        leave(currentRoomId)
+      }
+      currentRoomId = payload.room_id
+      currentUserId = userId
+      publish('join_room', payload)
+    }
+    // A room no instance holds (emptied and deleted, or its snapshot lost)
+    // picks its chat back up from the messages table
+    const open = async () => {
+      if (!rooms.has(payload.room_id)) {
+        const history = await mirror.loadMessages(payload.room_id, CHAT_HISTORY)
+        if (history.length) adapter.publish({ type: 'history', roomId: payload.room_id, messages: history.map(parseMessage) })
       }
+      admit()
     }
 
-    io.to(roomId).emit('members_update', {
-      room_id: roomId,
-      members: serializeMembers(room, roomId),
+    // Members (a reconnect, another tab) were let in already
+    if (!roomAccess.enforced || rooms.get(payload.room_id)?.members.has(userId)) return open()
+    return roomAccess.canJoin(payload.room_id, userId).then(ok => {
+      if (ok) return open()
+      reject(socket, 'join_room', payload.room_id, 'private_room')
     })
+  })
+
+  // ── refresh_auth (Supabase refreshed the session's token) ─────────────────
+  // Swaps the claims in place, so a session outlives its handshake token
+  // without reconnecting. Same user only — rooms and roles hang off the id
+  on('refresh_auth', ({ token }) => {
+    const auth = verifyToken(token)
+    const prev = socket.data.auth
+    if (!auth.ok) {
+      reject(socket, 'refresh_auth', undefined, auth.code)
+    } else if (prev.ok && prev.claims.sub !== auth.claims.sub) {
+      reject(socket, 'refresh_auth', undefined, 'invalid_token')
+    } else {
+      socket.data.auth = auth
+    }
+  })
+
+  // ── time_sync (NTP-style ping/pong, answered immediately) ─────────────────
+  on('time_sync', ({ client_time }) => {
+    socket.emit('time_sync', { client_time, server_time: Date.now() })
+  })
+
+  // ── request_state (explicit re-sync request) ──────────────────────────────
+  // Members only — room_state carries the chat and member list, and a private
+  // room's are only for those join_room let in
+  on('request_state', ({ room_id }) => {
+    const room = rooms.get(room_id)
+    if (!room || !socket.rooms.has(room_id)) {
+      reject(socket, 'request_state', room_id, 'not_in_room')
+      return
+    }
+    socket.emit('room_state', serializeRoomState(room_id, room))
+  })
+
+  // ── request_telemetry (host debug overlay polls this while open) ─────────
+  on('request_telemetry', ({ room_id }) => {
+    const room = authorizeHost({ socketId: socket.id, socket }, 'request_telemetry', room_id)
+    if (!room) return
+    socket.emit('sync_telemetry', serializeTelemetry(room_id, room))
+  })
+
+  // ── reaction (burst-limited per socket before it reaches the room) ────────
+  on('reaction', (payload) => {
+    // Over the burst limit → dropped quietly; it's only confetti
+    const now = Date.now()
+    reactionTimes = reactionTimes.filter(t => now - t < REACTION_WINDOW_MS)
+    if (reactionTimes.length >= REACTION_BURST) return
+    reactionTimes.push(now)
+
+    publish('reaction', payload)
+  })
 
+  // ── leave_room (explicit) ─────────────────────────────────────────────────
+  on('leave_room', ({ room_id }) => {
+    leave(room_id)
+  })
+
+  // ── Everything else is authorized and handled where it's applied ─────────
+  const replicated = [
+    'sync_position', 'play', 'pause', 'song_change', 'seed_queue', 'add_song', 'remove_song',
+    'move_song', 'next_song', 'transfer_host', 'grant_role', 'revoke_role', 'kick_member',
+    'ban_member', 'mute_member', 'unmute_member', 'vote_skip', 'chat_message', 'member_status',
+    'sync_report', 'vote',
+  ] as const
+  for (const event of replicated) on(event, payload => publish(event, payload))
+
+  // ── disconnect ────────────────────────────────────────────────────────────
+  // Not an explicit leave — the member is kept for a grace window (markReconnecting)
+  socket.on('disconnect', (reason) => {
+    console.log(`[-] ${socket.id} (${reason})`)
+    // After a join still being checked, so that one can't land after the disconnect
+    inOrder(() => {
+      if (!currentRoomId) return
+      if (DISCONNECT_GRACE_MS <= 0) {
+        leave(currentRoomId)
+        return
+      }
+      adapter.publish({ type: 'disconnect', roomId: currentRoomId, socketId: socket.id, userId: currentUserId })
+    })
+  })
+
+  // ── Internal leave helper ─────────────────────────────────────────────────
+  function leave(roomId: string) {
+    publish('leave_room', { room_id: roomId })
     if (roomId === currentRoomId) {
       currentRoomId = null
       currentUserId = null
@@ -302,6 +1499,43 @@ io.on('connection', (socket: Socket) => {
   }
 })
 
+// ── Start: catch up from a peer, or rehydrate persisted rooms ────────────────
+
+// Every instance reads the bans itself — they aren't part of a replica snapshot
+for (const ban of await banStore.load()) addBan(ban)
+console.log(`[Bans] ${banStore.kind}: ${Array.from(bans.values(), b => b.size).reduce((a, b) => a + b, 0)} active`)
+
+const fromPeer = await adapter.start({
+  apply:    applyOp,
+  peerDown: dropInstance,
+  snapshot: () => Array.from(rooms, ([roomId, room]) => snapshotReplica(roomId, room)),
+  load:     loadReplica,
+  lost: () => {
+    console.error('[Adapter] ❌ Lost the broker — exiting so a restart can resync from peers')
+    roomStore.flush().finally(() => process.exit(1))
+  },
+})
+console.log(`[Adapter] ${adapter.kind} as ${adapter.instanceId}${fromPeer ? ` — ${rooms.size} room(s) from a peer` : ''}`)
+
+// Peers already hold the live state — only the first instance reads the store
+if (!fromPeer) {
+  const restored = await roomStore.load()
+  if (restored.length) {
+    console.log(`[Store] Restored ${restored.length} room(s) from ${ROOM_STORE}`)
+    adapter.publish({ type: 'restore', snapshots: restored })
+  }
+}
+
+// Flush snapshots and exit without running disconnect handlers, which would
+// otherwise empty (and delete) every room on the way down
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, async () => {
+    console.log(`\n${signal} — saving room state`)
+    await roomStore.flush()
+    process.exit(0)
+  })
+}
+
 httpServer.listen(PORT, () => {
   console.log(`\n🎵 Syncy Socket Server running on port ${PORT}`)
   console.log(`   CORS origin: ${FRONTEND_URL}\n`)
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { createMetrics } from './metrics.js'
+
+// The series lines (not # HELP / # TYPE) of one metric
+const seriesOf = (text: string, name: string) =>
+  text.split('\n').filter(line => line.startsWith(`${name}{`) || line.startsWith(`${name} `))
+
+describe('metrics registry label cardinality', () => {
+  it('keeps one series per distinct label set', () => {
+    const m = createMetrics('t_')
+    const events = m.counter('events_total', 'Events')
+    events.inc({ event: 'play' })
+    events.inc({ event: 'play' })
+    events.inc({ event: 'pause' })
+
+    expect(seriesOf(m.render(), 't_events_total')).toEqual([
+      't_events_total{event="play"} 2',
+      't_events_total{event="pause"} 1',
+    ])
+  })
+
+  it('treats the same labels in another order as the same series', () => {
+    const m = createMetrics()
+    const c = m.counter('c', 'C')
+    c.inc({ a: '1', b: '2' })
+    c.inc({ b: '2', a: '1' })
+
+    expect(seriesOf(m.render(), 'c')).toEqual(['c{a="1",b="2"} 2'])
+  })
+
+  it('keeps unlabelled and labelled increments apart', () => {
+    const m = createMetrics()
+    const c = m.counter('c', 'C')
+    c.inc()
+    c.inc({ event: 'x' }, 5)
+
+    expect(m.snapshot()).toEqual({ c: { '': 1, 'event="x"': 5 } })
+  })
+
+  it('returns the same series when a counter is registered twice', () => {
+    const m = createMetrics()
+    m.counter('c', 'C').inc()
+    m.counter('c', 'C').inc()
+    expect(seriesOf(m.render(), 'c')).toEqual(['c 2'])
+  })
+
+  it('grows histogram series with label sets, not observations', () => {
+    const m = createMetrics()
+    const h = m.histogram('d', 'D', [0.1, 1])
+    for (let i = 0; i < 100; i++) h.observe({ event: i % 2 ? 'a' : 'b' }, i / 100)
+
+    const lines = seriesOf(m.render(), 'd_bucket')
+    // 2 label sets × (2 bounds + +Inf)
+    expect(lines).toHaveLength(6)
+    expect(lines).toContain('d_bucket{event="a",le="+Inf"} 50')
+  })
+
+  it('reads gauges at scrape time, so series of gone rooms disappear', () => {
+    const m = createMetrics()
+    let rooms: [string, number][] = [['r1', 2], ['r2', 1]]
+    m.gauge('members', 'Members', () => rooms.map(([room, n]) => [{ room }, n]))
+
+    expect(seriesOf(m.render(), 'members')).toHaveLength(2)
+    rooms = [['r2', 3]]
+    expect(seriesOf(m.render(), 'members')).toEqual(['members{room="r2"} 3'])
+  })
+
+  it('escapes label values so a crafted one cannot add series', () => {
+    const m = createMetrics()
+    m.counter('c', 'C').inc({ room: 'x"} 1\nc{room="y' })
+
+    const lines = seriesOf(m.render(), 'c')
+    expect(lines).toEqual(['c{room="x\\"} 1\\nc{room=\\"y"} 1'])
+  })
+})
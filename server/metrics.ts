@@ -0,0 +1,131 @@
+/**
+ * metrics.ts — In-process metrics for the socket server
+ *
+ * Deliberately tiny: counters, scrape-time gauges and histograms with
+ * optional labels. `render()` produces the Prometheus text format for
+ * GET /metrics (every name gets the registry prefix); `snapshot()` is the
+ * plain-object view of the counters served on the public health endpoint.
+ */
+
+export type Labels = Record<string, string>
+
+export interface Counter {
+  inc(labels?: Labels, by?: number): void
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void
+}
+
+/** Read when scraped — a bare number, or one value per label set */
+export type GaugeCollector = () => number | [Labels, number][]
+
+export interface Metrics {
+  counter(name: string, help: string): Counter
+  gauge(name: string, help: string, collect: GaugeCollector): void
+  histogram(name: string, help: string, buckets?: number[]): Histogram
+  /** name → { 'label="value",…' → count } for counters only ('' = unlabelled) */
+  snapshot(): Record<string, Record<string, number>>
+  /** Prometheus text exposition format (0.0.4) */
+  render(): string
+}
+
+// Seconds — tuned for socket handlers, which should stay well under 10ms
+export const LATENCY_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1]
+
+const escapeValue = (v: string) => v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+const labelKey = (labels: Labels = {}) =>
+  Object.keys(labels).sort().map(k => `${k}="${escapeValue(labels[k])}"`).join(',')
+
+const series = (name: string, key: string, value: number) =>
+  `${name}${key ? `{${key}}` : ''} ${Number.isFinite(value) ? value : 0}`
+
+interface HistogramSeries {
+  buckets: number[]   // per-bucket (not cumulative) counts
+  sum:     number
+  count:   number
+}
+
+export function createMetrics(prefix = ''): Metrics {
+  const counters   = new Map<string, { help: string; values: Map<string, number> }>()
+  const gauges     = new Map<string, { help: string; collect: GaugeCollector }>()
+  const histograms = new Map<string, { help: string; bounds: number[]; values: Map<string, HistogramSeries> }>()
+
+  const collectGauge = (collect: GaugeCollector): [string, number][] => {
+    const value = collect()
+    return typeof value === 'number' ? [['', value]] : value.map(([labels, v]) => [labelKey(labels), v])
+  }
+
+  return {
+    counter(name, help) {
+      const entry = counters.get(name) ?? { help, values: new Map<string, number>() }
+      counters.set(name, entry)
+      return {
+        inc(labels, by = 1) {
+          const key = labelKey(labels)
+          entry.values.set(key, (entry.values.get(key) ?? 0) + by)
+        },
+      }
+    },
+
+    gauge(name, help, collect) {
+      gauges.set(name, { help, collect })
+    },
+
+    histogram(name, help, bounds = LATENCY_BUCKETS) {
+      const entry = histograms.get(name) ?? { help, bounds, values: new Map<string, HistogramSeries>() }
+      histograms.set(name, entry)
+      return {
+        observe(labels, value) {
+          const key = labelKey(labels)
+          const s = entry.values.get(key) ?? { buckets: entry.bounds.map(() => 0), sum: 0, count: 0 }
+          const i = entry.bounds.findIndex(b => value <= b)
+          if (i !== -1) s.buckets[i]++
+          s.sum   += value
+          s.count += 1
+          entry.values.set(key, s)
+        },
+      }
+    },
+
+    snapshot() {
+      const out: Record<string, Record<string, number>> = {}
+      for (const [name, { values }] of counters) out[name] = Object.fromEntries(values)
+      return out
+    },
+
+    render() {
+      const lines: string[] = []
+
+      for (const [name, { help, values }] of counters) {
+        const full = prefix + name
+        lines.push(`# HELP ${full} ${help}`, `# TYPE ${full} counter`)
+        for (const [key, value] of values) lines.push(series(full, key, value))
+      }
+
+      for (const [name, { help, collect }] of gauges) {
+        const full = prefix + name
+        lines.push(`# HELP ${full} ${help}`, `# TYPE ${full} gauge`)
+        for (const [key, value] of collectGauge(collect)) lines.push(series(full, key, value))
+      }
+
+      for (const [name, { help, bounds, values }] of histograms) {
+        const full = prefix + name
+        lines.push(`# HELP ${full} ${help}`, `# TYPE ${full} histogram`)
+        for (const [key, s] of values) {
+          const withLe = (le: string) => (key ? `${key},` : '') + `le="${le}"`
+          let cumulative = 0
+          bounds.forEach((bound, i) => {
+            cumulative += s.buckets[i]
+            lines.push(series(`${full}_bucket`, withLe(String(bound)), cumulative))
+          })
+          lines.push(series(`${full}_bucket`, withLe('+Inf'), s.count))
+          lines.push(series(`${full}_sum`, key, s.sum), series(`${full}_count`, key, s.count))
+        }
+      }
+
+      return lines.join('\n') + '\n'
+    },
+  }
+}
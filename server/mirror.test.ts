@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createSupabaseMirror } from './mirror.js'
+import type { SupabaseRest } from './supabase.js'
+import type { ChatMessage } from '../shared/events.js'
+
+const ROOM = '11111111-2222-3333-4444-555555555555'
+
+const row = (n: number): ChatMessage => ({
+  id:         `00000000-0000-0000-0000-00000000000${n}`,
+  room_id:    ROOM,
+  user_id:    'u1',
+  username:   'ana',
+  text:       `message ${n}`,
+  created_at: new Date(1_700_000_000_000 + n * 1000).toISOString(),
+})
+
+// Answers every request with `response` (or throws it) and records the paths
+const fakeRest = (response: unknown) => {
+  const request = vi.fn(async (_path: string) => {
+    if (response instanceof Error) throw response
+    return response
+  })
+  return { rest: { request } as unknown as SupabaseRest, request }
+}
+
+describe('SupabaseMirror.loadMessages', () => {
+  it("reads the room's newest messages and returns them oldest first", async () => {
+    const { rest, request } = fakeRest([row(3), row(2), row(1)])
+    const messages = await createSupabaseMirror(rest).loadMessages(ROOM, 50)
+
+    expect(messages.map(m => m.text)).toEqual(['message 1', 'message 2', 'message 3'])
+    const [path] = request.mock.calls[0]
+    expect(path).toMatch(/^messages\?/)
+    expect(path).toContain(`room_id=eq.${ROOM}`)
+    expect(path).toContain('order=created_at.desc')
+    expect(path).toContain('limit=50')
+  })
+
+  it('skips rooms that have no row', async () => {
+    const { rest, request } = fakeRest([row(1)])
+    expect(await createSupabaseMirror(rest).loadMessages('local-room', 50)).toEqual([])
+    expect(request).not.toHaveBeenCalled()
+  })
+
+  it('starts a room with no history when the read fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { rest } = fakeRest(new Error('GET messages: 500'))
+    expect(await createSupabaseMirror(rest).loadMessages(ROOM, 50)).toEqual([])
+    expect(error).toHaveBeenCalledOnce()
+    error.mockRestore()
+  })
+
+  it('has nothing to read without Supabase settings', async () => {
+    expect(await createSupabaseMirror(null).loadMessages(ROOM, 50)).toEqual([])
+  })
+})
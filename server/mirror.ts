@@ -0,0 +1,73 @@
+/**
+ * mirror.ts — What the server itself writes back to (and reads from) Supabase
+ *
+ * Clients keep the `rooms` row up to date while a host is online, but the
+ * server also advances the queue on its own (song ended, vote skip, admin
+ * skip). Those changes are written here with the service role key so the
+ * dashboard and late joiners don't read a stale row.
+ *
+ * Chat goes to `messages` only from here — clients can't insert into it
+ * (supabase/migrations/003_messages.sql), so every row carries the
+ * server's id and timestamp and a muted member can't go around the socket.
+ * A room that starts up again (nobody left in it, no snapshot) reads its
+ * latest messages back from there.
+ *
+ * Fire-and-forget: a failed write is logged, the live room is unaffected; a
+ * failed read is logged and the room starts with no history. Without
+ * SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY nothing is written or read.
+ */
+import { isRowId, type SupabaseRest } from './supabase.js'
+import type { RoomStatus, Song } from './types.js'
+import type { ChatMessage } from '../shared/events.js'
+
+// Columns of public.rooms the server owns a copy of
+export interface RoomRowPatch {
+  current_song: (Song & { position: number; startedAt: number }) | null
+  queue:        Song[]
+  status:       RoomStatus
+}
+
+export interface SupabaseMirror {
+  saveRoom(roomId: string, patch: RoomRowPatch): void
+  saveMessage(message: ChatMessage): void
+  /** The room's last `limit` messages, oldest first */
+  loadMessages(roomId: string, limit: number): Promise<ChatMessage[]>
+}
+
+export function createSupabaseMirror(rest: SupabaseRest | null): SupabaseMirror {
+  if (!rest) return { saveRoom: () => {}, saveMessage: () => {}, loadMessages: async () => [] }
+
+  return {
+    saveRoom(roomId, patch) {
+      // Rooms that aren't DB rows (local testing) have nothing to update
+      if (!isRowId(roomId)) return
+      rest.request(`rooms?id=eq.${roomId}`, {
+        method: 'PATCH',
+        body:   patch,
+        prefer: 'return=minimal',
+      }).catch(err => console.error(`[Mirror] ❌ Could not save room ${roomId}:`, err))
+    },
+
+    saveMessage(message) {
+      if (!isRowId(message.room_id)) return
+      rest.request('messages?on_conflict=id', {
+        method: 'POST',
+        body:   message,
+        prefer: 'resolution=ignore-duplicates,return=minimal',
+      }).catch(err => console.error(`[Mirror] ❌ Could not save message ${message.id} in ${message.room_id}:`, err))
+    },
+
+    async loadMessages(roomId, limit) {
+      if (!isRowId(roomId)) return []
+      try {
+        const rows = await rest.request<ChatMessage[]>(
+          `messages?room_id=eq.${roomId}&select=id,room_id,user_id,username,text,created_at&order=created_at.desc&limit=${limit}`,
+        )
+        return (rows ?? []).reverse()
+      } catch (err) {
+        console.error(`[Mirror] ❌ Could not load chat for ${roomId}:`, err)
+        return []
+      }
+    },
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  createFileRoomStore, restoreRoom, restoreReplica, snapshotReplica, snapshotRoom, type RoomSnapshot,
+} from './persistence.js'
+import type { Song } from './types.js'
+
+const NOW  = 1_700_000_000_000
+const song: Song = { id: 's1', title: 'Song', artist: 'Artist', url: 'https://example.com/a.mp3', source: 'jamendo', duration: 180 }
+
+const snapshot = (overrides: Partial<RoomSnapshot> = {}): RoomSnapshot => ({
+  roomId:      'r1',
+  hostUserId:  'host-1',
+  djUserIds:   ['dj-1'],
+  mutedUserIds: [],
+  currentSong: song,
+  queue:       [{ ...song, id: 's2' }],
+  queueLoaded: true,
+  position:    30,
+  status:      'playing',
+  lastSync:    NOW,
+  messages:    [{ id: 'm1', userId: 'host-1', username: 'ana', text: 'hi', createdAt: NOW }],
+  reactions:   [],
+  seq:         12,
+  playbackVersion: 4,
+  ...overrides,
+})
+
+describe('restoreRoom', () => {
+  it('moves a playing song on by the time the server was down', () => {
+    const room = restoreRoom(snapshot(), NOW + 45_000)
+    expect(room.position).toBe(75)
+    expect(room.lastSync).toBe(NOW + 45_000)
+    expect(room.status).toBe('playing')
+  })
+
+  it('leaves a paused song where it was', () => {
+    const room = restoreRoom(snapshot({ status: 'paused' }), NOW + 45_000)
+    expect(room.position).toBe(30)
+  })
+
+  it('comes back memberless, with its host, roles, chat and numbering', () => {
+    const room = restoreRoom(snapshot(), NOW)
+    expect(room.members.size).toBe(0)
+    expect(room.hostUserId).toBe('host-1')
+    expect([...room.djUserIds]).toEqual(['dj-1'])
+    expect(room.messages.map(m => m.text)).toEqual(['hi'])
+    expect(room.playbackVersion).toBe(4)
+    // The replay buffer is gone, so a rejoin gets room_state rather than a replay
+    expect(room.seq).toBe(12)
+    expect(room.replayFrom).toBe(13)
+  })
+
+  it('fills in fields that older snapshots lack', () => {
+    const { djUserIds: _d, mutedUserIds: _m, messages: _c, reactions: _r, seq: _s, playbackVersion: _v, ...old } = snapshot()
+    const room = restoreRoom(old, NOW)
+    expect(room.djUserIds.size).toBe(0)
+    expect(room.messages).toEqual([])
+    expect(room.seq).toBe(0)
+    expect(room.playbackVersion).toBe(0)
+  })
+
+  it('round-trips through snapshotRoom', () => {
+    const snap = snapshot({ status: 'paused' })
+    expect(snapshotRoom('r1', restoreRoom(snap, NOW))).toEqual(snap)
+  })
+})
+
+describe('restoreReplica', () => {
+  it('copies the room exactly, position anchor included', () => {
+    const room = restoreRoom(snapshot(), NOW)
+    room.members.set('u1', {
+      userId: 'u1', username: 'ana', socketId: 'sock-1', instanceId: 'i1', joinedAt: 'then', connection: 'online',
+    })
+    room.socketToUser.set('sock-1', 'u1')
+    room.skipVotes.add('u1')
+
+    const copy = restoreReplica(JSON.parse(JSON.stringify(snapshotReplica('r1', room))))
+    expect(copy.position).toBe(room.position)
+    expect(copy.lastSync).toBe(room.lastSync)
+    expect(copy.members).toEqual(room.members)
+    expect(copy.socketToUser).toEqual(room.socketToUser)
+    expect(copy.skipVotes).toEqual(room.skipVotes)
+  })
+})
+
+describe('file room store', () => {
+  let dir = ''
+  let file = ''
+
+  beforeEach(async () => {
+    dir  = await fs.mkdtemp(join(tmpdir(), 'syncy-store-'))
+    file = join(dir, 'nested', 'rooms.json')
+  })
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('writes snapshots that a restarted store reads back', async () => {
+    const store = createFileRoomStore(file, 10_000)
+    store.save(snapshot())
+    store.save(snapshot({ roomId: 'r2', status: 'idle', currentSong: null }))
+    store.remove('r2')
+    await store.flush()
+
+    const restored = await createFileRoomStore(file).load()
+    expect(restored).toEqual([snapshot()])
+    // Written through a temp file and renamed into place
+    await expect(fs.access(`${file}.tmp`)).rejects.toThrow()
+  })
+
+  it('starts empty when there is no file yet', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(await createFileRoomStore(file).load()).toEqual([])
+    expect(error).not.toHaveBeenCalled()
+    error.mockRestore()
+  })
+
+  it('starts empty, and says so, when the file is corrupt', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await fs.mkdir(join(dir, 'nested'))
+    await fs.writeFile(file, '{"version":1,"rooms":[{"roomId":')
+
+    expect(await createFileRoomStore(file).load()).toEqual([])
+    expect(error).toHaveBeenCalledOnce()
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * persistence.ts — Pluggable snapshot store for socket room state
+ *
+ * Rooms are snapshotted on every change and rehydrated on startup, so a
+ * deploy or crash doesn't wipe the current song, position, queue or host.
+ * Members are not persisted — they reconnect and re-join by themselves.
+ *
+ * A replica snapshot is the same plus everything live (members, votes,
+ * telemetry) — what a running instance hands to one joining the cluster.
+ *
+ * Stores:
+ * - file   (default) JSON file, debounced atomic writes (tmp + rename)
+ * - memory no persistence (tests / throwaway instances)
+ */
+import { promises as fs } from 'fs'
+import { dirname } from 'path'
+import type {
+  BufferedEvent, ChatMessage, Member, MemberTelemetry, Reaction, RoomState, RoomStatus, Song,
+} from './types.js'
+
+export interface RoomSnapshot {
+  roomId:      string
+  hostUserId:  string | null
+  djUserIds?:  string[]
+  mutedUserIds?: string[]
+  currentSong: Song | null
+  queue:       Song[]
+  queueLoaded: boolean
+  position:    number
+  status:      RoomStatus
+  lastSync:    number
+  messages?:   ChatMessage[]
+  reactions?:  Reaction[]
+  seq?:        number
+  playbackVersion?: number
+}
+
+export interface RoomStore {
+  load():  Promise<RoomSnapshot[]>
+  save(snapshot: RoomSnapshot): void
+  remove(roomId: string): void
+  /** Writes anything pending — call before exiting */
+  flush(): Promise<void>
+}
+
+export function snapshotRoom(roomId: string, room: RoomState): RoomSnapshot {
+  return {
+    roomId,
+    hostUserId:  room.hostUserId,
+    djUserIds:   [...room.djUserIds],
+    mutedUserIds: [...room.mutedUserIds],
+    currentSong: room.currentSong,
+    queue:       room.queue,
+    queueLoaded: room.queueLoaded,
+    position:    room.position,
+    status:      room.status,
+    lastSync:    room.lastSync,
+    messages:    room.messages,
+    reactions:   room.reactions,
+    seq:         room.seq,
+    playbackVersion: room.playbackVersion,
+  }
+}
+
+/** Rebuilds a memberless room; a playing song keeps running through the downtime */
+export function restoreRoom(snap: RoomSnapshot, now = Date.now()): RoomState {
+  const elapsed = snap.status === 'playing' ? (now - snap.lastSync) / 1000 : 0
+  return {
+    members:      new Map(),
+    socketToUser: new Map(),
+    hostUserId:   snap.hostUserId,
+    djUserIds:    new Set(snap.djUserIds ?? []),
+    mutedUserIds: new Set(snap.mutedUserIds ?? []),
+    messages:     snap.messages ?? [],
+    reactions:    snap.reactions ?? [],
+    telemetry:    new Map(),
+    skipVotes:    new Set(),
+    currentSong:  snap.currentSong,
+    queue:        snap.queue,
+    queueLoaded:  snap.queueLoaded,
+    position:     snap.position + elapsed,
+    status:       snap.status,
+    lastSync:     now,
+    // Numbering carries on, but the replay buffer is gone — rejoins get room_state
+    seq:          snap.seq ?? 0,
+    recent:       [],
+    replayFrom:   (snap.seq ?? 0) + 1,
+    playbackVersion: snap.playbackVersion ?? 0,
+  }
+}
+
+export interface ReplicaSnapshot extends RoomSnapshot {
+  members:        Omit<Member, 'leaveTimer'>[]
+  socketToUser:   [string, string][]
+  telemetry:      [string, MemberTelemetry][]
+  skipVotes:      string[]
+  recent:         BufferedEvent[]
+  replayFrom:     number
+}
+
+export function snapshotReplica(roomId: string, room: RoomState): ReplicaSnapshot {
+  return {
+    ...snapshotRoom(roomId, room),
+    members:       Array.from(room.members.values(), ({ leaveTimer: _, ...m }) => m),
+    socketToUser:  [...room.socketToUser],
+    telemetry:     [...room.telemetry],
+    skipVotes:     [...room.skipVotes],
+    recent:        room.recent,
+    replayFrom:    room.replayFrom,
+  }
+}
+
+/** Exact copy — the position anchor (position @ lastSync) is kept as it was */
+export function restoreReplica(snap: ReplicaSnapshot): RoomState {
+  return {
+    ...restoreRoom(snap, snap.lastSync),
+    members:       new Map(snap.members.map(m => [m.userId, m])),
+    socketToUser:  new Map(snap.socketToUser),
+    telemetry:     new Map(snap.telemetry),
+    skipVotes:     new Set(snap.skipVotes),
+    recent:        snap.recent,
+    replayFrom:    snap.replayFrom,
+  }
+}
+
+// ── Memory store ─────────────────────────────────────────────────────────────
+
+export function createMemoryRoomStore(): RoomStore {
+  return {
+    load:   async () => [],
+    save:   () => {},
+    remove: () => {},
+    flush:  async () => {},
+  }
+}
+
+// ── File store ───────────────────────────────────────────────────────────────
+
+export function createFileRoomStore(filePath: string, writeDelayMs = 1000): RoomStore {
+  const snapshots = new Map<string, RoomSnapshot>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let writing: Promise<void> = Promise.resolve()
+
+  const write = async () => {
+    const tmp = `${filePath}.tmp`
+    await fs.mkdir(dirname(filePath), { recursive: true })
+    await fs.writeFile(tmp, JSON.stringify({ version: 1, rooms: [...snapshots.values()] }))
+    await fs.rename(tmp, filePath)
+  }
+
+  // Writes are serialized so an older snapshot can never land after a newer one
+  const enqueueWrite = () => {
+    writing = writing
+      .then(write)
+      .catch(err => console.error('[Store] ❌ Write failed:', err))
+  }
+
+  const schedule = () => {
+    if (timer) return
+    timer = setTimeout(() => {
+      timer = null
+      enqueueWrite()
+    }, writeDelayMs)
+  }
+
+  return {
+    async load() {
+      try {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf8')) as { rooms?: RoomSnapshot[] }
+        for (const snap of parsed.rooms ?? []) snapshots.set(snap.roomId, snap)
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`[Store] ❌ Could not read ${filePath}:`, err)
+        }
+      }
+      return [...snapshots.values()]
+    },
+
+    save(snapshot) {
+      snapshots.set(snapshot.roomId, snapshot)
+      schedule()
+    },
+
+    remove(roomId) {
+      if (snapshots.delete(roomId)) schedule()
+    },
+
+    async flush() {
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+        enqueueWrite()
+      }
+      await writing
+    },
+  }
+}
+
+export function createRoomStore(kind: string, filePath: string): RoomStore {
+  switch (kind) {
+    case 'memory': return createMemoryRoomStore()
+    case 'file':   return createFileRoomStore(filePath)
+    default:
+      console.warn(`[Store] Unknown ROOM_STORE "${kind}" — using file`)
+      return createFileRoomStore(filePath)
+  }
+}
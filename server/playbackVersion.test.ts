@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { acceptsVersion } from './playbackVersion.js'
+import { createRateLimiter, DEFAULT_RATE_LIMITS } from './rateLimit.js'
+
+describe('acceptsVersion', () => {
+  it('takes a newer change and refuses an older or repeated one', () => {
+    expect(acceptsVersion(4, 5)).toBe(true)
+    expect(acceptsVersion(4, 4)).toBe(false)
+    expect(acceptsVersion(4, 3)).toBe(false)
+  })
+
+  it('lets a heartbeat repeat the current version, but not go back', () => {
+    expect(acceptsVersion(4, 4, true)).toBe(true)
+    expect(acceptsVersion(4, 3, true)).toBe(false)
+  })
+
+  it('takes a change from a client left ahead by a dropped one', () => {
+    // The client sent 5, which never arrived, and now sends 6
+    expect(acceptsVersion(4, 6)).toBe(true)
+    expect(acceptsVersion(4, 6, true)).toBe(true)
+  })
+
+  it('keeps a host in step after a seek drag overruns the rate limit', () => {
+    const limiter = createRateLimiter(DEFAULT_RATE_LIMITS)
+    let room   = 0   // the server's version
+    let client = 0   // the host's playbackVersionRef
+    const send = (t: number, heartbeat: boolean) => {
+      const version = heartbeat ? client : ++client
+      if (!limiter.take('sync_position', t) || !acceptsVersion(room, version, heartbeat)) return false
+      room = version
+      return true
+    }
+
+    // Half a second of 60 Hz seeks — the burst goes through, the rest is dropped
+    const t = 1_000_000
+    for (let i = 0; i < 30; i++) send(t + i * 16, false)
+    expect(room).toBeLessThan(client)
+
+    // Then ten seconds of 500 ms heartbeats, every one accepted
+    const heartbeats = Array.from({ length: 20 }, (_, i) => send(t + 1000 + i * 500, true))
+    expect(heartbeats.every(Boolean)).toBe(true)
+    expect(room).toBe(client)
+  })
+})
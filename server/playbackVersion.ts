@@ -0,0 +1,14 @@
+/**
+ * playbackVersion.ts — Which client playback versions the server accepts
+ *
+ * A client bumps its version before the server has seen the change, so a
+ * change that gets dropped on the way (rate-limited, rejected, lost) leaves
+ * the client ahead of the room. Accepting anything newer — not just the
+ * room's next version — lets the client's following change or heartbeat
+ * through, and the room jumps to its version.
+ */
+
+/** A change must be newer than the room's version; a heartbeat may repeat it */
+export function acceptsVersion(current: number, version: number, heartbeat = false): boolean {
+  return version > current || (heartbeat && version === current)
+}
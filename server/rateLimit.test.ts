@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createRateLimiter, createStrikeCounter, parseRateLimits, DEFAULT_RATE_LIMITS, type RateLimits,
+} from './rateLimit.js'
+
+const limits: RateLimits = { ...DEFAULT_RATE_LIMITS, chat_message: { burst: 3, perSecond: 1 } }
+
+describe('createRateLimiter', () => {
+  it('allows a full burst, then drops', () => {
+    const limiter = createRateLimiter(limits)
+    const t = 1_000_000
+    expect([1, 2, 3, 4].map(() => limiter.take('chat_message', t))).toEqual([true, true, true, false])
+  })
+
+  it('refills at perSecond', () => {
+    const limiter = createRateLimiter(limits)
+    const t = 1_000_000
+    for (let i = 0; i < 3; i++) limiter.take('chat_message', t)
+    expect(limiter.take('chat_message', t + 500)).toBe(false)    // half a token
+    expect(limiter.take('chat_message', t + 1000)).toBe(true)    // the half from before + another half
+    expect(limiter.take('chat_message', t + 1000)).toBe(false)
+  })
+
+  it('never refills past the burst', () => {
+    const limiter = createRateLimiter(limits)
+    const t = 1_000_000
+    limiter.take('chat_message', t)
+    const later = t + 60_000
+    expect([1, 2, 3, 4].map(() => limiter.take('chat_message', later))).toEqual([true, true, true, false])
+  })
+
+  it('keeps a separate bucket per event', () => {
+    const limiter = createRateLimiter(limits)
+    const t = 1_000_000
+    for (let i = 0; i < 3; i++) limiter.take('chat_message', t)
+    expect(limiter.take('chat_message', t)).toBe(false)
+    expect(limiter.take('reaction', t)).toBe(true)
+  })
+})
+
+describe('createStrikeCounter', () => {
+  it('reports the hits once they reach the limit within the window', () => {
+    const strikes = createStrikeCounter(3, 10_000)
+    const t = 1_000_000
+    expect(strikes.strike(t)).toBe(0)
+    expect(strikes.strike(t + 1000)).toBe(0)
+    expect(strikes.strike(t + 2000)).toBe(3)
+  })
+
+  it('forgets hits older than the window', () => {
+    const strikes = createStrikeCounter(3, 10_000)
+    const t = 1_000_000
+    strikes.strike(t)
+    strikes.strike(t + 1000)
+    // The first hit has aged out, so this is only the second in the window
+    expect(strikes.strike(t + 10_500)).toBe(0)
+    expect(strikes.strike(t + 10_600)).toBe(3)
+  })
+
+  it('disconnects a socket that keeps hammering a limited event', () => {
+    const limiter = createRateLimiter(limits)
+    const strikes = createStrikeCounter(30, 60_000)
+    const t = 1_000_000
+    let disconnectedAfter = 0
+    // What the connection handler does per event: drop, strike, disconnect at the limit
+    for (let i = 1; i <= 100 && !disconnectedAfter; i++) {
+      if (!limiter.take('chat_message', t + i) && strikes.strike(t + i)) disconnectedAfter = i
+    }
+    expect(disconnectedAfter).toBe(3 + 30)
+  })
+})
+
+describe('parseRateLimits', () => {
+  it('overrides the listed events and keeps the rest', () => {
+    const parsed = parseRateLimits('sync_position=20:4, chat_message=3:0.5')
+    expect(parsed.sync_position).toEqual({ burst: 20, perSecond: 4 })
+    expect(parsed.chat_message).toEqual({ burst: 3, perSecond: 0.5 })
+    expect(parsed.play).toEqual(DEFAULT_RATE_LIMITS.play)
+  })
+
+  it('skips unknown events and malformed entries with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const parsed = parseRateLimits('nope=1:1,chat_message=fast,play=-1:2')
+    expect(parsed).toEqual(DEFAULT_RATE_LIMITS)
+    expect(warn).toHaveBeenCalledTimes(3)
+    warn.mockRestore()
+  })
+})
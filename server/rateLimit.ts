@@ -0,0 +1,100 @@
+/**
+ * rateLimit.ts — Per-socket, per-event token buckets
+ *
+ * Each socket gets one bucket per event type. A bucket holds `burst` tokens
+ * and refills at `perSecond`; an event that finds it empty is dropped. The
+ * defaults leave headroom over what the client actually sends (e.g. the
+ * host's 500ms heartbeat, the 8-ping clock-sync burst on connect).
+ *
+ * Override with RATE_LIMITS="event=burst:perSecond,…", e.g.
+ *   RATE_LIMITS="sync_position=20:4,chat_message=3:0.5"
+ *
+ * Dropped events count as strikes; a socket that collects too many within a
+ * window is disconnected (createStrikeCounter).
+ */
+import type { ClientToServerEvents } from '../shared/events.js'
+
+export interface RateLimit {
+  burst:     number   // bucket size
+  perSecond: number   // refill rate
+}
+
+export type RateLimits = Record<keyof ClientToServerEvents, RateLimit>
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  join_room:         { burst: 5,  perSecond: 0.5 },
+  leave_room:        { burst: 5,  perSecond: 0.5 },
+  time_sync:         { burst: 16, perSecond: 1 },
+  refresh_auth:      { burst: 3,  perSecond: 0.1 },
+  request_state:     { burst: 5,  perSecond: 1 },
+  sync_position:     { burst: 10, perSecond: 4 },
+  play:              { burst: 10, perSecond: 2 },
+  pause:             { burst: 10, perSecond: 2 },
+  song_change:       { burst: 5,  perSecond: 1 },
+  next_song:         { burst: 5,  perSecond: 1 },
+  seed_queue:        { burst: 3,  perSecond: 0.1 },
+  add_song:          { burst: 20, perSecond: 5 },
+  remove_song:       { burst: 20, perSecond: 5 },
+  move_song:         { burst: 20, perSecond: 5 },
+  transfer_host:     { burst: 5,  perSecond: 1 },
+  grant_role:        { burst: 5,  perSecond: 1 },
+  revoke_role:       { burst: 5,  perSecond: 1 },
+  kick_member:       { burst: 5,  perSecond: 1 },
+  ban_member:        { burst: 5,  perSecond: 1 },
+  mute_member:       { burst: 5,  perSecond: 1 },
+  unmute_member:     { burst: 5,  perSecond: 1 },
+  vote_skip:         { burst: 5,  perSecond: 1 },
+  chat_message:      { burst: 5,  perSecond: 1 },
+  reaction:          { burst: 20, perSecond: 5 },   // abuse ceiling; the quiet UX limit is in index.ts
+  member_status:     { burst: 10, perSecond: 2 },
+  sync_report:       { burst: 5,  perSecond: 1 },
+  request_telemetry: { burst: 5,  perSecond: 1 },
+  vote:              { burst: 5,  perSecond: 1 },
+}
+
+/** Applies RATE_LIMITS overrides; unknown events and malformed entries are warned about and skipped */
+export function parseRateLimits(spec: string, defaults = DEFAULT_RATE_LIMITS): RateLimits {
+  const limits = { ...defaults }
+  for (const entry of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const match = /^(\w+)=(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(entry)
+    const event = match?.[1] as keyof RateLimits | undefined
+    if (!match || !event || !(event in limits)) {
+      console.warn(`[RateLimit] Ignoring RATE_LIMITS entry "${entry}"`)
+      continue
+    }
+    limits[event] = { burst: Number(match[2]), perSecond: Number(match[3]) }
+  }
+  return limits
+}
+
+/** One socket's buckets — `take` returns false when the event should be dropped */
+export function createRateLimiter(limits: RateLimits) {
+  const buckets = new Map<string, { tokens: number; at: number }>()
+
+  return {
+    take(event: keyof RateLimits, now = Date.now()): boolean {
+      const { burst, perSecond } = limits[event]
+      const bucket = buckets.get(event) ?? { tokens: burst, at: now }
+      bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.at) / 1000) * perSecond)
+      bucket.at = now
+      buckets.set(event, bucket)
+
+      if (bucket.tokens < 1) return false
+      bucket.tokens -= 1
+      return true
+    },
+  }
+}
+
+/** One socket's rate-limit hits — `strike` returns how many are in the window once it reaches `limit`, else 0 */
+export function createStrikeCounter(limit: number, windowMs: number) {
+  let hits: number[] = []
+
+  return {
+    strike(now = Date.now()): number {
+      hits = hits.filter(t => now - t < windowMs)
+      hits.push(now)
+      return hits.length >= limit ? hits.length : 0
+    },
+  }
+}
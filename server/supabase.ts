@@ -0,0 +1,41 @@
+/**
+ * supabase.ts — Minimal PostgREST client for what the server enforces itself
+ *
+ * Uses the service role key, which bypasses RLS, so it is only for the
+ * server's own checks and records (bans, private room access). Plain fetch —
+ * the server doesn't depend on supabase-js.
+ */
+
+export interface SupabaseRest {
+  /** `path` is relative to /rest/v1 (e.g. `room_bans?select=*`); null for an empty body */
+  request<T>(path: string, init?: { method?: string; body?: unknown; prefer?: string }): Promise<T | null>
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Only rooms created through the app have a row (their id is a uuid) */
+export const isRowId = (id: string) => UUID.test(id)
+
+/** null when either setting is missing — callers fall back to what they can do locally */
+export function createSupabaseRest(supabaseUrl: string, serviceKey: string): SupabaseRest | null {
+  if (!supabaseUrl || !serviceKey) return null
+  const base = `${supabaseUrl.replace(/\/+$/, '')}/rest/v1/`
+
+  return {
+    async request<T>(path: string, { method = 'GET', body, prefer }: { method?: string; body?: unknown; prefer?: string } = {}) {
+      const res = await fetch(base + path, {
+        method,
+        headers: {
+          apikey:         serviceKey,
+          Authorization:  `Bearer ${serviceKey}`,
+          'Content-Type': 'application/json',
+          ...(prefer ? { Prefer: prefer } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+      const text = await res.text()
+      if (!res.ok) throw new Error(`${method} ${path.split('?')[0]}: ${res.status} ${text}`)
+      return text ? (JSON.parse(text) as T) : null
+    },
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * types.ts — Server-side room state
+ *
+ * Wire payloads (and the models they share with the client) are defined in
+ * shared/events.ts; this file is only what the server keeps in memory.
+ */
+import type { AuthResult } from './auth.js'
+import type { MemberHealth, ReactionEmoji, RoomStatus, ServerToClientEvents, Song } from '../shared/events.js'
+
+export type { MemberHealth, MemberRole, RoomStatus, Song } from '../shared/events.js'
+
+export type MemberConnection = 'online' | 'reconnecting'
+
+export interface Member {
+  userId:   string
+  username: string
+  socketId: string   // latest socket ID (re-join updates this)
+  instanceId: string // server instance that socket is connected to
+  joinedAt: string
+  connection: MemberConnection
+  health?:    MemberHealth
+  // Set while 'reconnecting' — fires the real removal when the grace window ends
+  leaveTimer?: ReturnType<typeof setTimeout>
+}
+
+export interface ChatMessage {
+  id:        string
+  userId:    string
+  username:  string
+  text:      string
+  createdAt: number   // server Date.now()
+}
+
+export interface Reaction {
+  id:        string
+  userId:    string
+  songId:    string
+  emoji:     ReactionEmoji
+  position:  number   // seconds into songId when it was received
+  createdAt: number   // server Date.now()
+}
+
+export interface SyncSample {
+  at:    number   // server Date.now() when received
+  drift: number   // s, local − expected (listeners; 0 for the host)
+  rtt:   number   // ms, from the client's time_sync
+}
+
+export interface MemberTelemetry {
+  samples: SyncSample[]   // oldest first
+  seeks:   number         // hard seeks the client has done so far
+}
+
+export type ServerEvent<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0]
+
+// Server → client events that are numbered room broadcasts (payload has `seq`)
+export type SequencedEvent = {
+  [E in keyof ServerToClientEvents]: ServerEvent<E> extends { seq: number } ? E : never
+}[keyof ServerToClientEvents]
+
+// A room broadcast kept for replay to reconnecting members
+export type BufferedEvent = {
+  [E in SequencedEvent]: {
+    seq:           number
+    event:         E
+    payload:       ServerEvent<E>
+    exceptUserId?: string   // the sender of a relay, who never got it
+  }
+}[SequencedEvent]
+
+// socket.data — set by the handshake middleware
+export interface SocketData {
+  auth: AuthResult
+}
+
+export interface RoomState {
+  // Members keyed by userId (not socketId) to prevent duplicates
+  members:     Map<string, Member>
+  // socketId → userId mapping for disconnect handling
+  socketToUser: Map<string, string>
+  hostUserId:  string | null
+  // Co-hosts granted by the host; cleared when they leave the room
+  djUserIds:   Set<string>
+  // Muted by the host: chat and reactions are rejected. Kept across rejoins
+  mutedUserIds: Set<string>
+  currentSong: Song | null
+  // Server owns the queue; clients only send operations
+  queue:       Song[]
+  // false until a client seeds the queue from the DB row (or mutates it)
+  queueLoaded: boolean
+  position:    number   // playback position at lastSync
+  status:      RoomStatus
+  lastSync:    number   // Date.now() when position was last updated
+  // Most recent chat messages (oldest first), sent to late joiners
+  messages:    ChatMessage[]
+  // Recent reactions across songs (oldest first) — the host's per-song heatmap
+  reactions:   Reaction[]
+  // Client sync reports by userId — in memory only
+  telemetry:   Map<string, MemberTelemetry>
+  // Users voting to skip currentSong; cleared whenever the song changes
+  skipVotes:   Set<string>
+  // Last room broadcast's sequence number (0 = none yet)
+  seq:         number
+  // Recent broadcasts (oldest first) for replay; superseded snapshots are dropped
+  recent:      BufferedEvent[]
+  // Oldest seq `recent` can still account for — a rejoin from before it gets room_state
+  replayFrom:  number
+  // Bumped by every play / pause / seek / song change (see Versioned in shared/events.ts)
+  playbackVersion: number
+  // Fires when currentSong should have ended (needs Song.duration)
+  endTimer?: ReturnType<typeof setTimeout>
+}
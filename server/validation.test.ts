@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { validatePayload, eventSchemas, type EventPayload } from './validation.js'
+import type { ClientToServerEvents, Song } from '../shared/events.js'
+
+type Event = keyof ClientToServerEvents
+
+const ROOM = '11111111-2222-3333-4444-555555555555'
+const song: Song = { id: 's1', title: 'Song', artist: 'Artist', url: 'https://example.com/a.mp3', source: 'jamendo', duration: 180 }
+
+// One valid payload per event — the mapped type makes a missing one a compile error
+const samples: { [E in Event]: EventPayload<E> } = {
+  join_room:         { room_id: ROOM, username: 'ana', queue: [song], since: 3 },
+  leave_room:        { room_id: ROOM },
+  time_sync:         { client_time: 1_700_000_000_000 },
+  refresh_auth:      { token: 'header.claims.signature' },
+  request_state:     { room_id: ROOM },
+  sync_position:     { room_id: ROOM, position: 12.5, status: 'playing', server_time: 1_700_000_000_000, version: 2 },
+  play:              { room_id: ROOM, position: 0, server_time: 1_700_000_000_000, version: 1 },
+  pause:             { room_id: ROOM, position: 3, server_time: 1_700_000_000_000, version: 2 },
+  song_change:       { room_id: ROOM, song, version: 1 },
+  seed_queue:        { room_id: ROOM, queue: [song] },
+  add_song:          { room_id: ROOM, song, index: 0 },
+  remove_song:       { room_id: ROOM, song_id: 's1' },
+  move_song:         { room_id: ROOM, song_id: 's1', to_index: 2 },
+  next_song:         { room_id: ROOM, song_id: 's1' },
+  transfer_host:     { room_id: ROOM, user_id: 'u2' },
+  grant_role:        { room_id: ROOM, user_id: 'u2', role: 'dj' },
+  revoke_role:       { room_id: ROOM, user_id: 'u2', role: 'dj' },
+  kick_member:       { room_id: ROOM, user_id: 'u2', reason: 'spam' },
+  ban_member:        { room_id: ROOM, user_id: 'u2', reason: 'spam', duration_s: 3600 },
+  mute_member:       { room_id: ROOM, user_id: 'u2' },
+  unmute_member:     { room_id: ROOM, user_id: 'u2' },
+  vote_skip:         { room_id: ROOM, song_id: 's1' },
+  chat_message:      { room_id: ROOM, text: 'hello' },
+  reaction:          { room_id: ROOM, emoji: '🔥' },
+  member_status:     { room_id: ROOM, status: 'in_sync' },
+  sync_report:       { room_id: ROOM, drift: -0.02, rtt: 40, seeks: 0 },
+  request_telemetry: { room_id: ROOM },
+  vote:              { room_id: ROOM, poll_id: 'p1', song_id: 's1' },
+}
+
+const events = Object.keys(eventSchemas) as Event[]
+const validate = (event: Event, payload: unknown) => validatePayload(event, payload)
+
+describe('validatePayload', () => {
+  it('has a sample for every event', () => {
+    expect(Object.keys(samples).sort()).toEqual([...events].sort())
+  })
+
+  describe.each(events)('%s', (event) => {
+    const sample = samples[event] as Record<string, unknown>
+    const fields = Object.entries(sample)
+
+    it('accepts a valid payload as is', () => {
+      expect(validate(event, sample)).toEqual({ ok: true, value: sample })
+    })
+
+    it('rejects a payload that is not an object', () => {
+      for (const bad of [null, undefined, 'x', 42, [sample]]) {
+        expect(validate(event, bad).ok).toBe(false)
+      }
+    })
+
+    it('rejects extra keys', () => {
+      const result = validate(event, { ...sample, user_id_spoof: 'host-1' })
+      expect(result).toEqual({ ok: false, error: `${event}.user_id_spoof: unexpected field` })
+    })
+
+    it('rejects oversized strings', () => {
+      for (const [key, value] of fields) {
+        if (typeof value !== 'string') continue
+        expect(validate(event, { ...sample, [key]: 'x'.repeat(10_000) }).ok, key).toBe(false)
+      }
+    })
+
+    it('rejects wrong types', () => {
+      for (const [key, value] of fields) {
+        const wrong = typeof value === 'string' ? 42 : typeof value === 'number' ? '42' : 'not-an-object'
+        expect(validate(event, { ...sample, [key]: wrong }).ok, key).toBe(false)
+      }
+    })
+  })
+
+  it('enforces the chat length the messages table allows', () => {
+    expect(validate('chat_message', { room_id: ROOM, text: 'x'.repeat(500) }).ok).toBe(true)
+    expect(validate('chat_message', { room_id: ROOM, text: 'x'.repeat(501) }).ok).toBe(false)
+    expect(validate('chat_message', { room_id: ROOM, text: '' }).ok).toBe(false)
+  })
+
+  it('rejects numbers out of range or not integral where they must be', () => {
+    expect(validate('move_song', { ...samples.move_song, to_index: 1.5 }).ok).toBe(false)
+    expect(validate('move_song', { ...samples.move_song, to_index: -1 }).ok).toBe(false)
+    expect(validate('play', { ...samples.play, position: Infinity }).ok).toBe(false)
+    expect(validate('ban_member', { ...samples.ban_member, duration_s: 59 }).ok).toBe(false)
+  })
+
+  it('rejects values outside an enum', () => {
+    expect(validate('reaction', { room_id: ROOM, emoji: '💩' }).ok).toBe(false)
+    expect(validate('grant_role', { ...samples.grant_role, role: 'admin' }).ok).toBe(false)
+  })
+
+  it('rejects a client-sent user_id on vote — the server sets it', () => {
+    expect(validate('vote', { ...samples.vote, user_id: 'host-1' }).ok).toBe(false)
+  })
+
+  it('drops unknown keys inside songs instead of rejecting them', () => {
+    const current = { ...song, position: 42, startedAt: 1_700_000_000_000 }
+    expect(validate('song_change', { room_id: ROOM, song: current, version: 1 }))
+      .toEqual({ ok: true, value: { room_id: ROOM, song, version: 1 } })
+  })
+
+  it('checks every song in a queue', () => {
+    const result = validate('seed_queue', { room_id: ROOM, queue: [song, { ...song, url: '' }] })
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.error).toMatch(/^seed_queue\.queue\[1\]\.url/)
+  })
+})
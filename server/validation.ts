@@ -0,0 +1,180 @@
+/**
+ * validation.ts — Runtime schemas for every client → server socket event
+ *
+ * Payloads arrive as untrusted JSON; the types in shared/events.ts only hold
+ * if something checks them. Each event has a schema below (the mapped type
+ * makes a missing one a compile error), and the connection handler runs it
+ * before the handler sees the payload.
+ *
+ * Object schemas reject keys they don't know, so nothing a client tacks on
+ * is ever relayed to the room. Songs are the exception: clients copy them from
+ * the rooms row (current_song carries position / startedAt), so unknown keys
+ * are dropped there instead.
+ */
+import type {
+  ClientToServerEvents, MemberHealth, MemberRole, MusicSource, ReactionEmoji, Song, SyncEvent, Versioned,
+} from '../shared/events.js'
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string }
+export type Validator<T> = (value: unknown, path: string) => ValidationResult<T>
+
+export type EventPayload<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0]
+
+// ── Limits ───────────────────────────────────────────────────────────────────
+
+const CHAT_MAX_LENGTH = 500      // matches the messages.text CHECK constraint
+const QUEUE_MAX       = 500
+const ID_MAX          = 128
+const USERNAME_MAX    = 64       // clients send the e-mail local part
+const TEXT_MAX        = 300      // song title / artist
+const URL_MAX         = 2048
+const MAX_SECONDS     = 86_400   // positions and durations
+const TOKEN_MAX       = 8192     // a Supabase JWT, user metadata included
+const REASON_MAX      = 200      // matches the room_bans.reason CHECK constraint
+const MAX_BAN_SECONDS = 365 * 86_400
+
+const REACTION_EMOJIS: readonly ReactionEmoji[]  = ['🔥', '❤️', '😂', '👏']
+const MEMBER_HEALTH:   readonly MemberHealth[]   = [
+  'in_sync', 'buffering', 'paused', 'muted', 'hidden', 'autoplay_blocked', 'idle',
+]
+const MEMBER_ROLES:    readonly MemberRole[]     = ['host', 'dj', 'listener']
+const MUSIC_SOURCES:   readonly MusicSource[]    = ['jamendo', 'youtube', 'jiosaavn']
+
+// ── Combinators ──────────────────────────────────────────────────────────────
+
+const ok   = <T>(value: T): ValidationResult<T> => ({ ok: true, value })
+const fail = <T>(path: string, expected: string): ValidationResult<T> => ({ ok: false, error: `${path}: expected ${expected}` })
+
+const string = (max: number, min = 1): Validator<string> => (v, path) =>
+  typeof v === 'string' && v.length >= min && v.length <= max
+    ? ok(v)
+    : fail(path, `string of ${min}–${max} chars`)
+
+const number = ({ min = -Infinity, max = Infinity, integer = false } = {}): Validator<number> => (v, path) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max && (!integer || Number.isInteger(v))
+    ? ok(v)
+    : fail(path, `${integer ? 'integer' : 'finite number'} in [${min}, ${max}]`)
+
+const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (v, path) =>
+  values.includes(v as T) ? ok(v as T) : fail(path, `one of ${values.join(', ')}`)
+
+const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (v, path) =>
+  v === undefined || v === null ? ok(undefined) : inner(v, path)
+
+const nullable = <T>(inner: Validator<T>): Validator<T | null> => (v, path) =>
+  v === null || v === undefined ? ok(null) : inner(v, path)
+
+const array = <T>(item: Validator<T>, max: number): Validator<T[]> => (v, path) => {
+  if (!Array.isArray(v) || v.length > max) return fail(path, `array of at most ${max}`)
+  const out: T[] = []
+  for (let i = 0; i < v.length; i++) {
+    const r = item(v[i], `${path}[${i}]`)
+    if (!r.ok) return r
+    out.push(r.value)
+  }
+  return ok(out)
+}
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> }
+
+const object = <T>(shape: Shape<T>, { strip = false } = {}): Validator<T> => (v, path) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return fail(path, 'object')
+  if (!strip) {
+    const extra = Object.keys(v).find(key => !Object.hasOwn(shape, key))
+    if (extra !== undefined) return { ok: false, error: `${path}.${extra}: unexpected field` }
+  }
+  const out: Record<string, unknown> = {}
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const r = shape[key]((v as Record<string, unknown>)[key], `${path}.${key}`)
+    if (!r.ok) return r
+    if (r.value !== undefined) out[key] = r.value
+  }
+  return ok(out as T)
+}
+
+// ── Field schemas ────────────────────────────────────────────────────────────
+
+const roomId   = string(ID_MAX)
+const userId   = string(ID_MAX)
+const position = number({ min: 0, max: MAX_SECONDS })
+const index    = number({ min: 0, max: QUEUE_MAX, integer: true })
+const clock    = number({ min: 0 })   // ms since epoch
+const version  = number({ min: 0, integer: true })
+
+const song = object<Song>({
+  id:       string(ID_MAX),
+  title:    string(TEXT_MAX, 0),
+  artist:   string(TEXT_MAX, 0),
+  url:      string(URL_MAX),
+  coverUrl: optional(string(URL_MAX, 0)),
+  duration: optional(number({ min: 0, max: MAX_SECONDS })),
+  source:   oneOf(MUSIC_SOURCES),
+  addedBy:  optional(string(USERNAME_MAX)),
+}, { strip: true })
+
+const roomRef = object({ room_id: roomId })
+const queue   = array(song, QUEUE_MAX)
+const control = object({ room_id: roomId, position, server_time: clock, version })
+const role    = object({ room_id: roomId, user_id: userId, role: oneOf(MEMBER_ROLES) })
+const target  = object({ room_id: roomId, user_id: userId })
+const reason  = optional(string(REASON_MAX))
+
+// ── Event schemas ────────────────────────────────────────────────────────────
+
+export const eventSchemas: { [E in keyof ClientToServerEvents]: Validator<EventPayload<E>> } = {
+  join_room:     object({
+    room_id:  roomId,
+    username: string(USERNAME_MAX),
+    queue:    optional(queue),
+    since:    optional(number({ min: 0, integer: true })),
+  }),
+  leave_room:    roomRef,
+  time_sync:     object({ client_time: clock }),
+  refresh_auth:  object({ token: string(TOKEN_MAX) }),
+  request_state: roomRef,
+  sync_position: object<Versioned<SyncEvent>>({
+    room_id:     roomId,
+    position,
+    status:      oneOf(['playing', 'paused'] as const),
+    server_time: clock,
+    version,
+  }),
+  play:          control,
+  pause:         control,
+  song_change:   object({ room_id: roomId, song: nullable(song), version }),
+  next_song:     object({ room_id: roomId, song_id: optional(string(ID_MAX)) }),
+  seed_queue:    object({ room_id: roomId, queue }),
+  add_song:      object({ room_id: roomId, song, index: optional(index) }),
+  remove_song:   object({ room_id: roomId, song_id: string(ID_MAX) }),
+  move_song:     object({ room_id: roomId, song_id: string(ID_MAX), to_index: index }),
+  transfer_host: target,
+  grant_role:    role,
+  revoke_role:   role,
+  kick_member:   object({ room_id: roomId, user_id: userId, reason }),
+  ban_member:    object({
+    room_id:    roomId,
+    user_id:    userId,
+    reason,
+    duration_s: optional(number({ min: 60, max: MAX_BAN_SECONDS, integer: true })),
+  }),
+  mute_member:   target,
+  unmute_member: target,
+  vote_skip:     object({ room_id: roomId, song_id: string(ID_MAX) }),
+  chat_message:  object({ room_id: roomId, text: string(CHAT_MAX_LENGTH) }),
+  reaction:      object({ room_id: roomId, emoji: oneOf(REACTION_EMOJIS) }),
+  member_status: object({ room_id: roomId, status: oneOf(MEMBER_HEALTH) }),
+  sync_report:   object({
+    room_id: roomId,
+    drift:   number({ min: -MAX_SECONDS, max: MAX_SECONDS }),
+    rtt:     number({ min: 0, max: 60_000 }),
+    seeks:   number({ min: 0, integer: true }),
+  }),
+  request_telemetry: roomRef,
+  vote:          object({ room_id: roomId, poll_id: string(ID_MAX), song_id: string(ID_MAX) }),
+}
+
+export function validatePayload<E extends keyof ClientToServerEvents>(
+  event: E, payload: unknown,
+): ValidationResult<EventPayload<E>> {
+  return eventSchemas[event](payload, event)
+}
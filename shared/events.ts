@@ -0,0 +1,280 @@
+/**
+ * events.ts — Socket.io event contract shared by the client and the server
+ *
+ * Every event either side emits is listed here with its payload, and both
+ * `io()` (client) and `new Server()` (server) are typed with these maps, so a
+ * renamed field or a missing payload key fails to compile on both sides.
+ *
+ * Types only — both sides import it with `import type`, so nothing from this
+ * directory ends up in the server's runtime or the client bundle.
+ *
+ * Wire format is snake_case; the server keeps its own camelCase room state
+ * (server/types.ts) and serializes into these shapes.
+ */
+
+// ── Shared models ────────────────────────────────────────────────────────────
+
+export type MusicSource = 'jamendo' | 'youtube' | 'jiosaavn'
+
+export interface Song {
+  id: string
+  title: string
+  artist: string
+  url: string           // Audio URL (MP3) or YouTube video ID
+  coverUrl?: string
+  duration?: number     // seconds
+  source: MusicSource
+  addedBy?: string
+}
+
+export type RoomStatus = 'playing' | 'paused' | 'idle'
+
+// host ⊃ dj (playback + queue control) ⊃ listener
+export type MemberRole = 'host' | 'dj' | 'listener'
+
+// Can this member actually hear the room? Reported by each client about itself
+export type MemberHealth =
+  | 'in_sync' | 'buffering' | 'paused' | 'muted' | 'hidden' | 'autoplay_blocked' | 'idle'
+
+export interface RoomMember {
+  room_id: string
+  user_id: string
+  username: string
+  joined_at: string
+  connection?: 'online' | 'reconnecting'   // socket presence — 'reconnecting' during the disconnect grace window
+  role?: MemberRole                        // as enforced by the socket server
+  health?: MemberHealth                    // self-reported playback health
+  chat_muted?: boolean                     // muted by the host — can't chat or react
+}
+
+export interface SyncEvent {
+  room_id: string
+  position: number
+  status: 'playing' | 'paused'
+  server_time: number
+}
+
+// Playback state is versioned per room. A change (play, pause, seek, song
+// change) proposes version + 1; a heartbeat repeats the current version. The
+// server takes any newer version, so a client left ahead by a dropped change
+// gets its next one through; server and clients drop anything older.
+export type Versioned<T> = T & { version: number }
+
+// Chat message as stamped by the socket server (mirrored to the messages table)
+export interface ChatMessage {
+  id: string
+  room_id: string
+  user_id: string
+  username: string
+  text: string
+  created_at: string
+}
+
+export type ReactionEmoji = '🔥' | '❤️' | '😂' | '👏'
+
+// Reaction as recorded by the socket server against a song + position
+export interface Reaction {
+  id: string
+  room_id: string
+  user_id: string
+  song_id: string
+  emoji: ReactionEmoji
+  position: number     // seconds into song_id
+  created_at: string
+}
+
+export interface VoteEvent {
+  poll_id: string
+  user_id: string
+  song_id: string
+}
+
+// Live vote-to-skip tally for the current song (server → client)
+export interface SkipVoteState {
+  song_id: string
+  votes: number
+  needed: number      // share of connected members, set by the server
+  voters: string[]
+}
+
+// Host debug overlay — aggregated client sync reports (server → host)
+export interface SyncSample {
+  at: number       // server ms
+  drift: number    // s, local − expected
+  rtt: number      // ms
+}
+
+export interface SyncTelemetry {
+  room_id: string
+  server_time: number
+  server_position: number    // getCurrentPosition() on the server at server_time
+  status: RoomStatus
+  song_id: string | null
+  summary: {
+    reporting: number
+    avg_abs_drift: number
+    max_abs_drift: number
+    avg_rtt: number
+    total_seeks: number
+  }
+  members: { user_id: string; username: string; seeks: number; samples: SyncSample[] }[]
+}
+
+export type SocketRejectCode =
+  | 'not_in_room' | 'not_host' | 'not_dj' | 'invalid_target'
+  | 'unauthenticated' | 'invalid_token' | 'invalid_payload' | 'rate_limited'
+  | 'banned' | 'muted' | 'private_room'
+
+// Server → client when an event was refused
+export interface SocketErrorEvent {
+  event: string
+  room_id?: string
+  code: SocketRejectCode
+}
+
+// ── Server → client payloads ─────────────────────────────────────────────────
+
+// Room broadcasts are numbered per room, in the order the server sent them.
+// A client that reconnects sends the last seq it saw (join_room `since`).
+export type Sequenced<T> = T & { seq: number }
+
+// Full snapshot for a joiner (or an explicit request_state)
+export interface RoomStateEvent {
+  room_id: string
+  seq: number                 // last room event this snapshot includes
+  version: number             // playback version
+  currentSong: Song | null
+  queue?: Song[]              // left out until the server knows the room's queue
+  position: number
+  status: RoomStatus
+  server_time: number
+  host_id: string | null
+  members: RoomMember[]
+  skip_votes: SkipVoteState | null
+  messages: ChatMessage[]
+  reactions: Reaction[]       // current song only
+}
+
+export interface MembersUpdateEvent {
+  room_id: string
+  host_id: string | null
+  members: RoomMember[]
+}
+
+export interface QueueUpdateEvent {
+  room_id: string
+  queue: Song[]
+}
+
+export interface SongChangeEvent {
+  room_id: string
+  song: Song | null
+  server_time: number         // when the song started on the server clock
+  version: number             // playback version this change set
+}
+
+export type SkipVotesEvent = SkipVoteState & { room_id: string }
+
+// This socket was taken out of the room (kicked, or the room was closed)
+export interface RemovedEvent {
+  room_id: string
+  reason?: string
+}
+
+// ── Client → server payloads ─────────────────────────────────────────────────
+
+export interface RoomRef {
+  room_id: string
+}
+
+export interface JoinRoomPayload {
+  room_id: string
+  username: string
+  queue?: Song[]              // DB copy, seeds the server queue on first join
+  since?: number              // last seq seen — on a rejoin, replay what was missed instead of room_state
+}
+
+export interface PlaybackControlPayload {
+  room_id: string
+  position: number
+  server_time: number
+  version: number             // proposed: the version the sender last saw + 1
+}
+
+export interface SyncReportPayload {
+  room_id: string
+  drift: number
+  rtt: number
+  seeks: number
+}
+
+export interface RolePayload {
+  room_id: string
+  user_id: string
+  role: MemberRole
+}
+
+export interface KickPayload {
+  room_id: string
+  user_id: string
+  reason?: string             // shown to the member on their way out
+}
+
+// A kick that also refuses the user at join_room until it runs out
+export interface BanPayload extends KickPayload {
+  duration_s?: number         // left out = permanent
+}
+
+// ── Event maps ───────────────────────────────────────────────────────────────
+
+export interface ServerToClientEvents {
+  time_sync:        (e: { client_time: number; server_time: number }) => void
+  error:            (e: SocketErrorEvent) => void
+  room_state:       (e: RoomStateEvent) => void
+  members_update:   (e: Sequenced<MembersUpdateEvent>) => void
+  promoted_to_host: (e: RoomRef) => void
+  kicked:           (e: RemovedEvent) => void
+  room_closed:      (e: RemovedEvent) => void
+  queue_update:     (e: Sequenced<QueueUpdateEvent>) => void
+  sync_position:    (e: Sequenced<Versioned<SyncEvent>>) => void
+  song_change:      (e: Sequenced<SongChangeEvent>) => void
+  next_song:        (e: Sequenced<RoomRef>) => void
+  skip_votes:       (e: Sequenced<SkipVotesEvent>) => void
+  chat_message:     (e: Sequenced<ChatMessage>) => void
+  reaction:         (e: Sequenced<Reaction>) => void
+  sync_telemetry:   (e: SyncTelemetry) => void
+  vote:             (e: Sequenced<VoteEvent & { room_id: string }>) => void
+}
+
+export interface ClientToServerEvents {
+  join_room:         (e: JoinRoomPayload) => void
+  leave_room:        (e: RoomRef) => void
+  time_sync:         (e: { client_time: number }) => void
+  // The session's refreshed access token — same user, so rooms and roles carry over
+  refresh_auth:      (e: { token: string }) => void
+  request_state:     (e: RoomRef) => void
+  sync_position:     (e: Versioned<SyncEvent>) => void
+  play:              (e: PlaybackControlPayload) => void
+  pause:             (e: PlaybackControlPayload) => void
+  song_change:       (e: Versioned<{ room_id: string; song: Song | null }>) => void
+  next_song:         (e: { room_id: string; song_id?: string }) => void
+  seed_queue:        (e: QueueUpdateEvent) => void
+  add_song:          (e: { room_id: string; song: Song; index?: number }) => void
+  remove_song:       (e: { room_id: string; song_id: string }) => void
+  move_song:         (e: { room_id: string; song_id: string; to_index: number }) => void
+  transfer_host:     (e: { room_id: string; user_id: string }) => void
+  grant_role:        (e: RolePayload) => void
+  revoke_role:       (e: RolePayload) => void
+  kick_member:       (e: KickPayload) => void
+  ban_member:        (e: BanPayload) => void
+  mute_member:       (e: { room_id: string; user_id: string }) => void
+  unmute_member:     (e: { room_id: string; user_id: string }) => void
+  vote_skip:         (e: { room_id: string; song_id: string }) => void
+  chat_message:      (e: { room_id: string; text: string }) => void
+  reaction:          (e: { room_id: string; emoji: ReactionEmoji }) => void
+  member_status:     (e: { room_id: string; status: MemberHealth }) => void
+  sync_report:       (e: SyncReportPayload) => void
+  request_telemetry: (e: RoomRef) => void
+  // Relayed to the rest of the room; user_id is the sender's, set by the server
+  vote:              (e: Omit<VoteEvent, 'user_id'> & { room_id: string }) => void
+}
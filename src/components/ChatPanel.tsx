@@ -0,0 +1,92 @@
+import { useState, useRef, useEffect } from 'react'
+import { MessageCircle, Send } from 'lucide-react'
+import type { ChatMessage } from '@/types'
+import { cn } from '@/lib/utils'
+
+// ─── Room chat ────────────────────────────────────────────────────────────────
+
+const MAX_LENGTH = 500   // server rejects anything longer
+
+interface ChatPanelProps {
+  messages: ChatMessage[]
+  userId: string
+  onSend: (text: string) => void
+  // Muted by the host — the server would reject anything sent
+  disabled?: boolean
+}
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+export const ChatPanel = ({ messages, userId, onSend, disabled }: ChatPanelProps) => {
+  const [draft, setDraft] = useState('')
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+  }, [messages.length])
+
+  const send = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (disabled || !draft.trim()) return
+    onSend(draft)
+    setDraft('')
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {messages.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center gap-3 py-12 text-s-muted">
+            <MessageCircle size={32} strokeWidth={1.5} />
+            <p className="text-sm">No messages yet</p>
+            <p className="text-xs text-s-muted">Say hi to the room</p>
+          </div>
+        ) : messages.map((m, i) => {
+          const own = m.user_id === userId
+          // Consecutive messages from the same person share one header
+          const grouped = i > 0 && messages[i - 1].user_id === m.user_id
+          return (
+            <div key={m.id} className={cn('flex flex-col', own ? 'items-end' : 'items-start', grouped && '-mt-2')}>
+              {!grouped && (
+                <div className="flex items-baseline gap-2 mb-1 px-1">
+                  <span className="text-xs font-medium text-s-sub">{own ? 'You' : m.username}</span>
+                  <span className="text-[10px] font-mono text-s-muted">{formatClock(m.created_at)}</span>
+                </div>
+              )}
+              <p className={cn(
+                'max-w-[80%] px-3 py-2 rounded-2xl text-sm break-words whitespace-pre-wrap',
+                own
+                  ? 'bg-s-violet/20 border border-s-violet/30 text-s-text rounded-br-md'
+                  : 'bg-s-card/60 border border-s-border/40 text-s-text rounded-bl-md'
+              )}>
+                {m.text}
+              </p>
+            </div>
+          )
+        })}
+      </div>
+
+      <form onSubmit={send} className="flex items-center gap-2 px-3 py-3 border-t border-s-border/40 flex-shrink-0">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          maxLength={MAX_LENGTH}
+          disabled={disabled}
+          placeholder={disabled ? 'The host muted you' : 'Message the room…'}
+          className="flex-1 bg-s-card border border-s-border rounded-lg px-3 py-2 text-sm text-s-text placeholder:text-s-muted focus:outline-none focus:border-s-violet/50 disabled:opacity-50"
+          aria-label="Chat message"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !draft.trim()}
+          className="w-9 h-9 flex items-center justify-center rounded-lg bg-s-violet text-white hover:bg-s-violet/90 transition-all disabled:opacity-40"
+          aria-label="Send"
+        >
+          <Send size={14} />
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -7,27 +7,58 @@ export interface PlayerHandle {
   seekTo: (seconds: number) => void
   getCurrentTime: () => number
   setVolume: (vol: number) => void
+  /** Returns the rate actually applied — YouTube rounds to its listed rates */
+  setPlaybackRate: (rate: number) => number
 }
 
+// What the local player is actually doing ('blocked' = browser refused autoplay)
+export type PlaybackState = 'playing' | 'paused' | 'buffering' | 'blocked'
+
 interface PlayerEmbedProps {
   song: Song | null // Changed to allow null to prevent crash
   volume: number
   onTimeUpdate?: (time: number) => void
   onEnded?: () => void
   onReady?: () => void
+  onPlaybackChange?: (state: PlaybackState) => void
   autoPlay?: boolean
 }
 
 const YT_PLAYING = 1
 const YT_ENDED = 0
+const YT_PAUSED = 2
+const YT_BUFFERING = 3
+// playVideo() never rejects — if YouTube hasn't started by then, autoplay was blocked
+const YT_BLOCKED_AFTER_MS = 2500
 
 export const PlayerEmbed = forwardRef<PlayerHandle, PlayerEmbedProps>(
-  ({ song, volume, onTimeUpdate, onEnded, onReady, autoPlay = false }, ref) => {
+  ({ song, volume, onTimeUpdate, onEnded, onReady, onPlaybackChange, autoPlay = false }, ref) => {
     const audioRef = useRef<HTMLAudioElement>(null)
     const ytPlayerRef = useRef<YTPlayer | null>(null)
     const [ytReady, setYtReady] = useState(false)
     const volumeRef = useRef(volume)
     const timeIntervalRef = useRef<number>(0)
+    const onPlaybackRef = useRef(onPlaybackChange)
+    const ytStateRef = useRef<number>(-1)
+    const ytBlockedTimerRef = useRef<number>(0)
+
+    useEffect(() => { onPlaybackRef.current = onPlaybackChange }, [onPlaybackChange])
+
+    // Audio: a NotAllowedError from play() means the browser wants a user gesture
+    const playAudio = (audio: HTMLAudioElement) =>
+      audio.play().catch((err: DOMException) => {
+        if (err?.name === 'NotAllowedError') onPlaybackRef.current?.('blocked')
+      })
+
+    const playYouTube = (player: YTPlayer) => {
+      player.playVideo()
+      clearTimeout(ytBlockedTimerRef.current)
+      ytBlockedTimerRef.current = window.setTimeout(() => {
+        if (ytStateRef.current !== YT_PLAYING && ytStateRef.current !== YT_BUFFERING) {
+          onPlaybackRef.current?.('blocked')
+        }
+      }, YT_BLOCKED_AFTER_MS)
+    }
 
     // Safety check to prevent crash if song is null
     const isYouTube = song?.source === 'youtube'
@@ -43,20 +74,29 @@ export const PlayerEmbed = forwardRef<PlayerHandle, PlayerEmbedProps>(
       const handleTimeUpdate = () => onTimeUpdate?.(audio.currentTime)
       const handleEnded = () => onEnded?.()
       const handleCanPlay = () => onReady?.()
+      const handlePlaying = () => onPlaybackRef.current?.('playing')
+      const handlePause = () => onPlaybackRef.current?.('paused')
+      const handleWaiting = () => onPlaybackRef.current?.('buffering')
 
       audio.addEventListener('timeupdate', handleTimeUpdate)
       audio.addEventListener('ended', handleEnded)
       audio.addEventListener('canplay', handleCanPlay)
+      audio.addEventListener('playing', handlePlaying)
+      audio.addEventListener('pause', handlePause)
+      audio.addEventListener('waiting', handleWaiting)
 
-      if (autoPlay) audio.play().catch(() => {})
+      if (autoPlay) playAudio(audio)
 
       return () => {
         audio.removeEventListener('timeupdate', handleTimeUpdate)
         audio.removeEventListener('ended', handleEnded)
         audio.removeEventListener('canplay', handleCanPlay)
+        audio.removeEventListener('playing', handlePlaying)
+        audio.removeEventListener('pause', handlePause)
+        audio.removeEventListener('waiting', handleWaiting)
         audio.pause()
       }
-    }, [song?.url, isYouTube]) // Safe access
+    }, [song?.url, isYouTube]) // eslint-disable-line react-hooks/exhaustive-deps -- bound once per song
 
     useEffect(() => {
       if (audioRef.current && !isYouTube) {
@@ -93,18 +133,24 @@ export const PlayerEmbed = forwardRef<PlayerHandle, PlayerEmbedProps>(
               setYtReady(true)
               e.target.setVolume(Math.round(volumeRef.current * 100))
               onReady?.()
-              if (autoPlay) e.target.playVideo()
+              if (autoPlay) playYouTube(e.target)
               
               clearInterval(timeIntervalRef.current)
               timeIntervalRef.current = window.setInterval(() => {
                 try {
                   const time = e.target.getCurrentTime()
                   if (time) onTimeUpdate?.(time)
-                } catch(e) {}
+                } catch {
+                  // Player torn down between ticks — the cleanup clears this interval
+                }
               }, 500)
             },
             onStateChange: (e: YTStateChangeEvent) => {
+              ytStateRef.current = e.data
               if (e.data === YT_ENDED) onEnded?.()
+              if (e.data === YT_PLAYING) onPlaybackRef.current?.('playing')
+              else if (e.data === YT_BUFFERING) onPlaybackRef.current?.('buffering')
+              else if (e.data === YT_PAUSED || e.data === YT_ENDED) onPlaybackRef.current?.('paused')
             },
           },
         })
@@ -121,23 +167,25 @@ export const PlayerEmbed = forwardRef<PlayerHandle, PlayerEmbedProps>(
 
       return () => {
         clearInterval(timeIntervalRef.current)
+        clearTimeout(ytBlockedTimerRef.current)
+        ytStateRef.current = -1
         ytPlayerRef.current?.destroy?.()
         ytPlayerRef.current = null
         setYtReady(false)
       }
-    }, [song?.url, isYouTube])
+    }, [song?.url, isYouTube]) // eslint-disable-line react-hooks/exhaustive-deps -- one player per song
 
     useEffect(() => {
       if (isYouTube && ytReady && ytPlayerRef.current) {
-        try { ytPlayerRef.current.setVolume(Math.round(volume * 100)) } catch {}
+        try { ytPlayerRef.current.setVolume(Math.round(volume * 100)) } catch { /* not ready for commands yet */ }
       }
     }, [volume, isYouTube, ytReady])
 
     // ── Controls ─────────────────────────────────────────────────────────────
     useImperativeHandle(ref, () => ({
       play: async () => {
-        if (isYouTube && ytReady) ytPlayerRef.current?.playVideo()
-        else if (audioRef.current) await audioRef.current.play().catch(() => {})
+        if (isYouTube && ytReady) { if (ytPlayerRef.current) playYouTube(ytPlayerRef.current) }
+        else if (audioRef.current) await playAudio(audioRef.current)
       },
       pause: () => {
         if (isYouTube && ytReady) ytPlayerRef.current?.pauseVideo()
@@ -155,6 +203,24 @@ export const PlayerEmbed = forwardRef<PlayerHandle, PlayerEmbedProps>(
         if (isYouTube && ytReady) ytPlayerRef.current?.setVolume(Math.round(vol * 100))
         else if (audioRef.current) audioRef.current.volume = vol
       },
+      setPlaybackRate: (rate: number) => {
+        if (isYouTube && ytReady) {
+          // YouTube only honours its listed rates (0.75, 1, 1.25…) — pick the
+          // nearest one on the same side of 1 so a nudge isn't rounded away
+          const player = ytPlayerRef.current
+          if (!player) return 1
+          const rates = player.getAvailablePlaybackRates?.() ?? [1]
+          const side = rates.filter(r => (rate > 1 ? r > 1 : rate < 1 ? r < 1 : r === 1))
+          const pick = side.length
+            ? side.reduce((a, b) => (Math.abs(b - rate) < Math.abs(a - rate) ? b : a))
+            : 1
+          player.setPlaybackRate(pick)
+          return pick
+        }
+        if (!audioRef.current) return 1
+        audioRef.current.playbackRate = rate
+        return rate
+      },
     }), [isYouTube, ytReady])
 
     if (!song) return null
@@ -193,6 +259,8 @@ interface YTPlayer {
   seekTo: (seconds: number, allowSeekAhead: boolean) => void
   getCurrentTime: () => number
   setVolume: (vol: number) => void
+  setPlaybackRate: (rate: number) => void
+  getAvailablePlaybackRates?: () => number[]
   destroy: () => void
 }
 interface YTEvent { target: YTPlayer }
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { BarChart2, Check, Music, X, Trophy, Timer, Zap, Crown } from 'lucide-react'
+import { BarChart2, Check, Music, X, Trophy, Timer, Zap } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import type { Poll, Song } from '@/types'
 import { cn } from '@/lib/utils'
@@ -10,7 +10,6 @@ interface PollSidebarProps {
   poll: Poll | null
   isHost: boolean
   currentUserId: string
-  queue: Song[]
   onVote: (pollId: string, songId: string) => void
   onClose: () => void
   onCreatePoll: () => void
@@ -21,7 +20,6 @@ export const PollSidebar = ({
   poll,
   isHost,
   currentUserId,
-  queue,
   onVote,
   onClose,
   onCreatePoll,
@@ -0,0 +1,113 @@
+import { useMemo } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { FloatingReaction } from '@/hooks/useFloatingReactions'
+import type { Reaction, ReactionEmoji } from '@/types'
+import { cn } from '@/lib/utils'
+
+// ─── Emoji reactions: picker, float-up overlay, host heatmap ─────────────────
+
+// Same set the socket server accepts
+const REACTION_EMOJIS: ReactionEmoji[] = ['🔥', '❤️', '😂', '👏']
+const TIMELINE_BUCKETS = 40
+
+interface FloatingReactionsProps {
+  items: FloatingReaction[]
+  durationMs: number
+}
+
+export const FloatingReactions = ({ items, durationMs }: FloatingReactionsProps) => (
+  <div className="absolute inset-0 pointer-events-none z-30 flex items-end justify-center">
+    <AnimatePresence>
+      {items.map(f => (
+        <motion.span
+          key={f.id}
+          initial={{ opacity: 0, y: 0, x: f.x, scale: 0.6 }}
+          animate={{ opacity: [0, 1, 1, 0], y: -180, scale: 1.1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: durationMs / 1000, ease: 'easeOut' }}
+          className="absolute bottom-6 text-2xl select-none"
+        >
+          {f.emoji}
+        </motion.span>
+      ))}
+    </AnimatePresence>
+  </div>
+)
+
+interface ReactionBarProps {
+  disabled?: boolean
+  onReact: (emoji: ReactionEmoji) => void
+}
+
+export const ReactionBar = ({ disabled, onReact }: ReactionBarProps) => (
+  <div className="flex items-center justify-center gap-1.5">
+    {REACTION_EMOJIS.map(emoji => (
+      <button
+        key={emoji}
+        onClick={() => onReact(emoji)}
+        disabled={disabled}
+        className="w-9 h-9 rounded-full bg-s-card/60 border border-s-border/40 text-base hover:border-s-violet/40 hover:scale-110 active:scale-95 transition-all disabled:opacity-30 disabled:hover:scale-100"
+        aria-label={`React ${emoji}`}
+      >
+        {emoji}
+      </button>
+    ))}
+  </div>
+)
+
+interface ReactionTimelineProps {
+  reactions: Reaction[]    // already filtered to the current song
+  duration: number
+  currentTime: number
+}
+
+const formatTime = (secs: number) =>
+  `${Math.floor(secs / 60)}:${Math.floor(secs % 60).toString().padStart(2, '0')}`
+
+/** Host view: where in the track reactions landed, bucketed across its length */
+export const ReactionTimeline = ({ reactions, duration, currentTime }: ReactionTimelineProps) => {
+  const span = duration || Math.max(1, ...reactions.map(r => r.position))
+
+  const buckets = useMemo(() => {
+    const result = Array.from({ length: TIMELINE_BUCKETS }, () => ({} as Partial<Record<ReactionEmoji, number>>))
+    for (const r of reactions) {
+      const i = Math.min(TIMELINE_BUCKETS - 1, Math.floor((r.position / span) * TIMELINE_BUCKETS))
+      result[i][r.emoji] = (result[i][r.emoji] ?? 0) + 1
+    }
+    return result
+  }, [reactions, span])
+
+  const totals = buckets.map(b => Object.values(b).reduce((sum, n) => sum + (n ?? 0), 0))
+  const max    = Math.max(1, ...totals)
+  const peak   = totals.indexOf(Math.max(...totals))
+
+  if (reactions.length === 0) return null
+
+  const label = (i: number) => {
+    const counts = REACTION_EMOJIS.filter(e => buckets[i][e]).map(e => `${e}${buckets[i][e]}`).join(' ')
+    return `${formatTime((i / TIMELINE_BUCKETS) * span)} · ${counts}`
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-s-muted">
+        <span>Crowd reactions</span>
+        <span className="font-mono">peak {label(peak)}</span>
+      </div>
+      <div className="relative flex items-end gap-px h-6">
+        {totals.map((n, i) => (
+          <div
+            key={i}
+            title={n ? label(i) : undefined}
+            className={cn('flex-1 rounded-sm', n ? 'bg-s-violet/70' : 'bg-s-border/40')}
+            style={{ height: `${Math.max(8, (n / max) * 100)}%` }}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-s-text/60"
+          style={{ left: `${Math.min(100, (currentTime / span) * 100)}%` }}
+        />
+      </div>
+    </div>
+  )
+}
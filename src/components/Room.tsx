@@ -1,20 +1,32 @@
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import {
   Play, Pause, SkipForward, Volume2, VolumeX,
   Users, ListMusic, Search, BarChart2, Copy, Check,
-  GripVertical, Trash2, Crown, Radio, WifiOff,
-  ChevronLeft, Music, Shuffle, Repeat, Plus,
-  ChevronDown, ChevronUp,
+  GripVertical, Trash2, Crown, Radio, WifiOff, Headphones,
+  ChevronLeft, Music, Repeat, Plus,
+  MessageCircle, Activity, LogOut,
+  UserX, Ban, MessageSquareOff,
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useNavigate } from 'react-router-dom'
-import { PlayerEmbed, type PlayerHandle } from './PlayerEmbed'
+import { PlayerEmbed, type PlayerHandle, type PlaybackState } from './PlayerEmbed'
 import { SongSearch } from './SongSearch'
+import { SyncSettings } from './SyncSettings'
+import { ChatPanel } from './ChatPanel'
+import { ReactionBar, FloatingReactions, ReactionTimeline } from './Reactions'
+import { SyncDebugOverlay } from './SyncDebugOverlay'
 import { PollSidebar, CreatePollModal } from './PollModal'
 import { useRoom } from '@/hooks/useRoom'
 import { useRealtime } from '@/hooks/useRealtime'
-import type { Song, SyncEvent, SearchResult, Room as RoomType } from '@/types'
-import { cn } from '@/lib/utils'
+import { useFloatingReactions } from '@/hooks/useFloatingReactions'
+import { useSyncTelemetry } from '@/hooks/useSyncTelemetry'
+import { serverNow } from '@/services/socket'
+import { createInvite } from '@/services/supabaseClient'
+import { createSyncEngine, expectedPosition, DEFAULT_THRESHOLDS, SEEK_EMIT_MS } from '@/lib/syncEngine'
+import type {
+  Song, SyncEvent, SearchResult, MemberRole, MemberHealth, RoomMember,
+} from '@/types'
+import { cn, throttle } from '@/lib/utils'
 
 interface RoomProps {
   roomId: string
@@ -22,12 +34,37 @@ interface RoomProps {
   username: string
 }
 
-type Panel = 'queue' | 'search' | 'members'
+type Panel = 'queue' | 'search' | 'chat' | 'members'
+
+// Members panel badge per reported health — red means they can't hear the room
+const HEALTH_BADGE: Record<MemberHealth, { label: string; className: string }> = {
+  in_sync:          { label: 'In sync',          className: 'text-s-green' },
+  buffering:        { label: 'Buffering',        className: 'text-s-amber' },
+  paused:           { label: 'Paused locally',   className: 'text-s-amber' },
+  muted:            { label: 'Muted',            className: 'text-s-muted' },
+  hidden:           { label: 'Tab hidden',       className: 'text-s-muted' },
+  autoplay_blocked: { label: 'Autoplay blocked', className: 'text-red-400' },
+  idle:             { label: 'Idle',             className: 'text-s-muted' },
+}
+
+// Ban lengths offered in the members panel — no seconds = permanent
+const BAN_DURATIONS: { label: string; seconds?: number }[] = [
+  { label: '1h',      seconds: 3600 },
+  { label: '1d',      seconds: 86_400 },
+  { label: 'Forever' },
+]
+
+const REMOVED_MESSAGE = {
+  kicked: 'You were removed from this room',
+  banned: "You're banned from this room",
+  closed: 'This room was closed',
+  private: 'This room is private — you need the password or an invite link',
+}
 
 export const Room = ({ roomId, userId, username }: RoomProps) => {
   const navigate = useNavigate()
   const playerRef = useRef<PlayerHandle>(null)
-  const syncIntervalRef = useRef<number>(0)
+  const broadcastHeartbeatRef = useRef<(position: number, status: 'playing' | 'paused') => void>()
   const discRef = useRef<HTMLDivElement>(null)
   const discRotationRef = useRef(0)
   const lastTimestampRef = useRef<number>(0)
@@ -41,21 +78,45 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
   const [showCreatePoll, setShowCreatePoll] = useState(false)
   const [copied, setCopied] = useState(false)
   const [dragIdx, setDragIdx] = useState<number | null>(null)
-  const [showSearch, setShowSearch] = useState(false)
   const [isRepeat, setIsRepeat] = useState(false)
+  const [serverHostId, setServerHostId] = useState<string | null>(null)
+  // Host handed over but not yet confirmed by the server — see handleHostChange
+  const pendingHostRef = useRef<string | null>(null)
+  const [myRole, setMyRole] = useState<MemberRole>()
+  const [chatSeen, setChatSeen] = useState(0)
+  const [playback, setPlayback] = useState<PlaybackState>('paused')
+  const [tabHidden, setTabHidden] = useState(() => document.visibilityState === 'hidden')
+  const [showSyncDebug, setShowSyncDebug] = useState(false)
+  // Member whose ban-length picker is open in the members panel
+  const [banMenuFor, setBanMenuFor] = useState<string | null>(null)
+  const { floating, push: pushFloating, durationMs: floatMs } = useFloatingReactions()
 
   const {
     room, activePoll, isLoading,
-    addSong, removeSong, reorderQueue,
-    setCurrentSong, updateStatus, startPoll, vote, skipToNext, closePoll,
+    applyQueue, persistQueue, applyCurrentSong,
+    setCurrentSong, updateStatus, updateHost, updateSyncSettings, startPoll, vote, closePoll,
     updateRoom: applyRoomUpdate, updatePoll,
   } = useRoom(roomId, userId, username)
 
-  const isHost = room?.host_id === userId
+  // The socket server enforces host-only controls, so its view wins once known
+  const hostId = serverHostId ?? room?.host_id
+  const isHost = hostId === userId
+  // DJs share playback and queue control with the host
+  const canControl = isHost || myRole === 'dj'
   const currentSong = room?.current_song
   const duration = currentSong?.duration || 0
   const effectiveVolume = isMuted ? 0 : volume
 
+  // What this member is actually hearing — most actionable problem first
+  const health: MemberHealth =
+    !currentSong || room?.status === 'idle' ? 'idle'
+    : playback === 'blocked' ? 'autoplay_blocked'
+    : playback === 'buffering' ? 'buffering'
+    : room?.status === 'playing' && playback !== 'playing' ? 'paused'
+    : effectiveVolume === 0 ? 'muted'
+    : tabHidden ? 'hidden'
+    : 'in_sync'
+
   // ── Disc animation ─────────────────────────────────────────────────────────
   useEffect(() => {
     let animId: number
@@ -72,64 +133,129 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
     return () => cancelAnimationFrame(animId)
   }, [isPlaying])
 
-  // ── Sync handler ───────────────────────────────────────────────────────────
+  // ── Sync engine (drift correction, heartbeat, mid-session join) ───────────
+  const [syncEngine] = useState(() => createSyncEngine({
+    getPlayer: () => playerRef.current,
+    now: serverNow,
+    onHeartbeat: (pos, status) => broadcastHeartbeatRef.current?.(pos, status),
+    onStateChange: (state) => {
+      if (state.pending || state.status === 'idle') return
+      setIsPlaying(state.status === 'playing')
+      setCurrentTime(state.position)
+    },
+  }))
+  useEffect(() => () => syncEngine.destroy(), [syncEngine])
+  useEffect(() => { syncEngine.setHost(isHost) }, [syncEngine, isHost])
+  useEffect(() => {
+    syncEngine.setThresholds({
+      nudgeThreshold: room?.sync_settings?.nudge_threshold,
+      seekThreshold:  room?.sync_settings?.seek_threshold,
+    })
+  }, [syncEngine, room?.sync_settings?.nudge_threshold, room?.sync_settings?.seek_threshold])
+  const telemetry = useSyncTelemetry(roomId, syncEngine, isHost && showSyncDebug)
+
+  const nudgeThreshold = room?.sync_settings?.nudge_threshold ?? DEFAULT_THRESHOLDS.nudgeThreshold
   const handleSync = useCallback((event: SyncEvent) => {
-    if (isHost) return
-    const networkLatency = (Date.now() - event.server_time) / 1000
-    const expectedPos = event.position + networkLatency
+    if (!isHost) {
+      syncEngine.applyServerState(event)
+      return
+    }
+    // Host only hears a DJ's play/pause/seek here — obey it, the heartbeat carries it on
     const player = playerRef.current
     if (!player) return
+    const target = expectedPosition(event, serverNow())
+    if (Math.abs(player.getCurrentTime() - target) > nudgeThreshold) player.seekTo(target)
+    if (event.status === 'playing') player.play().catch(() => {})
+    else player.pause()
+    setIsPlaying(event.status === 'playing')
+    setCurrentTime(target)
+    if (room?.status !== event.status) updateStatus(event.status)
+  }, [isHost, syncEngine, nudgeThreshold, room?.status, updateStatus])
 
-    const localTime = player.getCurrentTime()
-    const drift = Math.abs(localTime - expectedPos)
-
-    if (drift > 0.3) {
-      player.seekTo(expectedPos)
+  // Server advanced the queue (skip, song ended, or first song added to an idle room)
+  const handleSongChangeFromServer = useCallback((song: Song | null, startedAt?: number) => {
+    if (isHost) setCurrentSong(song)   // host mirrors it to the DB
+    else applyCurrentSong(song)
+    syncEngine.reset()
+    // Listeners start on the server's clock — no host heartbeat needed
+    if (song && startedAt !== undefined) {
+      syncEngine.applyServerState({ room_id: roomId, position: 0, status: 'playing', server_time: startedAt })
     }
-
-    if (event.status === 'playing') {
-      player.play().catch(() => {})
-      setIsPlaying(true)
-      setCurrentTime(expectedPos)
-    } else if (event.status === 'paused') {
-      player.pause()
-      setIsPlaying(false)
-      setCurrentTime(event.position)
+    setCurrentTime(0)
+    setIsPlaying(!!song)
+    if (isHost && song) {
+      setTimeout(() => {
+        playerRef.current?.play().catch(() => {})
+      }, 500)
     }
-  }, [isHost])
+  }, [roomId, isHost, setCurrentSong, applyCurrentSong, syncEngine])
 
-  const handleSongChangeFromServer = useCallback((song: Song | null) => {
-    if (isHost) return
-    if (song) {
-      setCurrentTime(0)
-      setIsPlaying(true)
-    } else {
-      setIsPlaying(false)
-      setCurrentTime(0)
-    }
-  }, [isHost])
-
-  const { connected, members, broadcastPlay, broadcastPause, broadcastPosition, broadcastNext, broadcastSongChange } =
-    useRealtime({
-      roomId, userId, username, isHost,
-      onSync: handleSync,
-      onRoomUpdate: applyRoomUpdate,
-      onPollUpdate: updatePoll,
-      onSongChange: handleSongChangeFromServer,
-    })
+  const handleQueueUpdate = useCallback((queue: Song[]) => {
+    applyQueue(queue)
+    if (isHost) persistQueue(queue)
+  }, [isHost, applyQueue, persistQueue])
+
+  const handleMembersUpdate = useCallback((list: RoomMember[]) => {
+    setMyRole(list.find(m => m.user_id === userId)?.role)
+  }, [userId])
+
+  // The DB row follows a transfer only once the server has made it, so a
+  // rejected one (target left, lost race) doesn't leave the two disagreeing
+  const handleHostChange = useCallback((newHostId: string | null) => {
+    setServerHostId(newHostId)
+    const pending = pendingHostRef.current
+    if (!pending || newHostId === userId) return
+    pendingHostRef.current = null
+    if (newHostId === pending) updateHost(pending)
+  }, [userId, updateHost])
+
+  const {
+    connected, removed, members, skipVotes, messages, reactions,
+    broadcastPlay, broadcastPause, broadcastPosition, broadcastHeartbeat, broadcastNext,
+    addToQueue, removeFromQueue, moveInQueue, voteSkip, sendMessage, react, transferHost, setDj,
+    kick, ban, setMuted,
+  } = useRealtime({
+    roomId, userId, username, isHost, canControl, health,
+    queue: room?.queue,
+    onSync: handleSync,
+    onRoomUpdate: applyRoomUpdate,
+    onPollUpdate: updatePoll,
+    onSongChange: handleSongChangeFromServer,
+    onQueueUpdate: handleQueueUpdate,
+    onMembersUpdate: handleMembersUpdate,
+    onHostChange: handleHostChange,
+    onReaction: pushFloating,
+  })
+  // The server rejects a muted member's chat and reactions; grey them out here too
+  const selfMuted = members.some(m => m.user_id === userId && m.chat_muted)
+
+  const broadcastSeek = useMemo(() => throttle(broadcastPosition, SEEK_EMIT_MS), [broadcastPosition])
+  useEffect(() => () => broadcastSeek.cancel(), [broadcastSeek])
 
   // ── Host broadcasts position every 500ms ──────────────────────────────────
+  useEffect(() => { broadcastHeartbeatRef.current = broadcastHeartbeat }, [broadcastHeartbeat])
   useEffect(() => {
-    if (!isHost || !isPlaying) {
-      clearInterval(syncIntervalRef.current)
-      return
-    }
-    syncIntervalRef.current = window.setInterval(() => {
-      const pos = playerRef.current?.getCurrentTime() || 0
-      broadcastPosition(pos, 'playing')
-    }, 500)
-    return () => clearInterval(syncIntervalRef.current)
-  }, [isHost, isPlaying, broadcastPosition])
+    syncEngine.setHeartbeat(isHost && isPlaying && !removed)
+  }, [syncEngine, isHost, isPlaying, removed])
+
+  // ── Player (re)mounts per song — hold server state until it's ready ───────
+  useEffect(() => {
+    syncEngine.setPlayerReady(false)
+  }, [syncEngine, currentSong?.id])
+
+  // ── Playback health inputs ─────────────────────────────────────────────────
+  useEffect(() => {
+    const onVisibility = () => setTabHidden(document.visibilityState === 'hidden')
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => document.removeEventListener('visibilitychange', onVisibility)
+  }, [])
+  // New song → new player element; it reports again once it starts
+  useEffect(() => { setPlayback('paused') }, [currentSong?.id])
+
+  // ── Chat unread badge ──────────────────────────────────────────────────────
+  useEffect(() => {
+    if (panel === 'chat') setChatSeen(messages.length)
+  }, [panel, messages.length])
 
   // ── Sync volume to player ──────────────────────────────────────────────────
   useEffect(() => {
@@ -139,24 +265,23 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
   // ── Show poll notification ─────────────────────────────────────────────────
   useEffect(() => {
     if (activePoll?.active) setPanel('queue') // keep queue visible, poll in sidebar
-  }, [activePoll?.id])
+  }, [activePoll?.id]) // eslint-disable-line react-hooks/exhaustive-deps -- once per new poll
 
   // ── Room state sync (non-host joins mid-play) ──────────────────────────────
+  // startedAt is on the server clock; a fresher socket room_state wins in the engine
   useEffect(() => {
     if (!room || isHost) return
-    if (room.status === 'playing' && room.current_song) {
-      const elapsed = room.current_song.startedAt
-        ? (Date.now() - room.current_song.startedAt) / 1000
-        : room.current_song.position || 0
-      setTimeout(() => {
-        playerRef.current?.seekTo(elapsed)
-        playerRef.current?.play().catch(() => {})
-        setIsPlaying(true)
-      }, 800)
+    if (room.status === 'playing' && room.current_song?.startedAt) {
+      syncEngine.applyServerState({
+        room_id:     room.id,
+        position:    0,
+        status:      'playing',
+        server_time: room.current_song.startedAt,
+      })
     } else if (room.status === 'paused') {
       setIsPlaying(false)
     }
-  }, [room?.id, isHost]) // Only on initial load
+  }, [room?.id, isHost]) // eslint-disable-line react-hooks/exhaustive-deps -- only on initial load
 
   // ── Controls ───────────────────────────────────────────────────────────────
   const handlePlay = async () => {
@@ -164,9 +289,11 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
     try {
       await playerRef.current?.play()
       setIsPlaying(true)
-      if (isHost) {
+      if (canControl) {
         const pos = playerRef.current?.getCurrentTime() || currentTime
-        await updateStatus('playing')
+        if (isHost) await updateStatus('playing')
+        // Carries the position — a seek still waiting on the throttle would undo it
+        broadcastSeek.cancel()
         broadcastPlay(pos)
       }
     } catch (e) {
@@ -177,33 +304,38 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
   const handlePause = async () => {
     playerRef.current?.pause()
     setIsPlaying(false)
-    if (isHost) {
+    if (canControl) {
       const pos = playerRef.current?.getCurrentTime() || currentTime
-      await updateStatus('paused')
+      if (isHost) await updateStatus('paused')
+      broadcastSeek.cancel()
       broadcastPause(pos)
     }
   }
 
-  const handleSkip = async () => {
-    if (!isHost) return
-    clearInterval(syncIntervalRef.current)
+  const handleSkip = useCallback(() => {
+    if (!canControl) return
+    syncEngine.setHeartbeat(false)
+    broadcastSeek.cancel()
     setIsPlaying(false)
     setCurrentTime(0)
-    await skipToNext()
-    broadcastNext()
-    broadcastSongChange(room?.queue[0] || null)
-    setTimeout(() => {
-      playerRef.current?.play().catch(() => {})
-      setIsPlaying(true)
-    }, 500)
+    // Server pops the queue and answers with song_change + queue_update;
+    // the song id keeps this from racing the server's own auto-advance
+    broadcastNext(currentSong?.id)
+  }, [canControl, syncEngine, broadcastSeek, broadcastNext, currentSong?.id])
+
+  // Listeners can't skip outright — they vote, the server skips at its threshold
+  const liveSkipVotes = skipVotes && skipVotes.song_id === currentSong?.id ? skipVotes : null
+  const hasVotedSkip  = !!liveSkipVotes?.voters.includes(userId)
+  const handleVoteSkip = () => {
+    if (currentSong && !hasVotedSkip) voteSkip(currentSong.id)
   }
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!isHost) return
+    if (!canControl) return
     const val = parseFloat(e.target.value)
     playerRef.current?.seekTo(val)
     setCurrentTime(val)
-    broadcastPosition(val, isPlaying ? 'playing' : 'paused')
+    broadcastSeek(val, isPlaying ? 'playing' : 'paused')
   }
 
   const handleEnded = useCallback(() => {
@@ -215,7 +347,7 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
     } else {
       handleSkip()
     }
-  }, [isHost, isRepeat, currentSong])
+  }, [isHost, isRepeat, currentSong, broadcastPosition, handleSkip])
 
   const handleAddSong = (result: SearchResult) => {
     const song: Song = {
@@ -228,15 +360,8 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
       source: result.source,
       addedBy: userId,
     }
-    addSong(song)
-    if (!room?.current_song && isHost) {
-      setCurrentSong(song, 0)
-      broadcastSongChange(song)
-      setTimeout(() => {
-        playerRef.current?.play().catch(() => {})
-        setIsPlaying(true)
-      }, 600)
-    }
+    // Server starts it right away if nothing is playing
+    addToQueue(song)
   }
 
   const handleVolumeToggle = () => {
@@ -255,8 +380,10 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
     setIsMuted(val === 0)
   }
 
-  const copyLink = () => {
-    const joinUrl = `${window.location.origin}/join/${roomId}`
+  // Private rooms: the host shares a signed invite; anyone else can only pass on the bare link
+  const copyLink = async () => {
+    const invite = room?.visibility === 'private' && isHost ? await createInvite(roomId) : null
+    const joinUrl = `${window.location.origin}/join/${roomId}${invite ? `?invite=${invite}` : ''}`
     navigator.clipboard.writeText(joinUrl)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
@@ -269,6 +396,7 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
   }
 
   const progressPct = duration > 0 ? (currentTime / duration) * 100 : 0
+  const songReactions = reactions.filter(r => r.song_id === currentSong?.id)
 
   // Drag-to-reorder
   const handleDragStart = (idx: number) => setDragIdx(idx)
@@ -278,21 +406,44 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
     const newQ = [...room.queue]
     const [moved] = newQ.splice(dragIdx, 1)
     newQ.splice(idx, 0, moved)
-    reorderQueue(newQ)
+    applyQueue(newQ)   // optimistic; server confirms with queue_update
+    moveInQueue(moved.id, idx)
     setDragIdx(idx)
   }
   const handleDragEnd = () => setDragIdx(null)
 
+  const handleTransferHost = (targetId: string) => {
+    pendingHostRef.current = targetId
+    transferHost(targetId)
+  }
+
   const handlePollWinner = (songId: string) => {
     if (!activePoll || !isHost) return
     const winner = activePoll.options.find(s => s.id === songId)
     if (!winner) return
     closePoll(activePoll.id)
-    // Add winner to front of queue
-    const newQueue = [winner, ...(room?.queue || [])]
-    reorderQueue(newQueue)
+    // Move winner to front of queue (re-add if it was removed meanwhile)
+    if (room?.queue.some(s => s.id === songId)) moveInQueue(songId, 0)
+    else addToQueue(winner, 0)
   }
 
+  // ── Removed by the server (kicked / banned / room closed) ───────────────────────────
+  if (removed) return (
+    <div className="h-screen bg-s-bg flex flex-col items-center justify-center gap-4">
+      <LogOut size={40} className="text-s-muted" />
+      <p className="text-s-sub">{REMOVED_MESSAGE[removed.kind]}</p>
+      {removed.reason && <p className="text-xs text-s-muted">{removed.reason}</p>}
+      {removed.kind === 'private' && (
+        <button onClick={() => navigate(`/join/${roomId}`)} className="text-s-violet hover:underline text-sm">
+          Enter password
+        </button>
+      )}
+      <button onClick={() => navigate('/dashboard')} className="text-s-violet hover:underline text-sm">
+        ← Back to dashboard
+      </button>
+    </div>
+  )
+
   // ── Loading ────────────────────────────────────────────────────────────────
   if (isLoading) return (
     <div className="h-screen bg-s-bg flex items-center justify-center">
@@ -354,6 +505,26 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
               Host
             </div>
           )}
+          {isHost && (
+            <button
+              onClick={() => setShowSyncDebug(v => !v)}
+              className={cn('p-1.5 rounded-lg border transition-all',
+                showSyncDebug
+                  ? 'border-s-cyan/40 bg-s-cyan/10 text-s-cyan'
+                  : 'border-s-border bg-s-card text-s-muted hover:text-s-text'
+              )}
+              title="Sync debug"
+              aria-label="Toggle sync debug overlay"
+            >
+              <Activity size={12} />
+            </button>
+          )}
+          {!isHost && myRole === 'dj' && (
+            <div className="flex items-center gap-1 text-xs px-2.5 py-1 rounded-full bg-s-cyan/15 border border-s-cyan/30 text-s-cyan">
+              <Headphones size={10} />
+              DJ
+            </div>
+          )}
 
           <button onClick={copyLink}
             className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-s-card border border-s-border hover:border-s-violet/40 text-s-sub hover:text-s-text transition-all"
@@ -414,6 +585,8 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                 <div className="absolute bottom-0 right-[-2px] w-[12px] h-[12px] rounded-full bg-s-violet" />
               </div>
 
+              <FloatingReactions items={floating} durationMs={floatMs} />
+
               {/* EQ bars - show when playing */}
               {isPlaying && (
                 <div className="absolute bottom-[-16px] flex gap-0.5 items-end h-4">
@@ -449,8 +622,19 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                 </div>
               )}
             </div>
+
+            <ReactionBar disabled={!currentSong || selfMuted} onReact={react} />
           </div>
 
+          {/* Host: which moments of this track got a reaction */}
+          {isHost && currentSong && (
+            <ReactionTimeline
+              reactions={songReactions}
+              duration={duration}
+              currentTime={currentTime}
+            />
+          )}
+
           {/* Progress bar */}
           <div className="space-y-1">
             <div className="relative">
@@ -461,8 +645,8 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                 value={currentTime}
                 step={0.1}
                 onChange={handleSeek}
-                disabled={!isHost || !currentSong}
-                className={cn('w-full', !isHost && 'cursor-not-allowed')}
+                disabled={!canControl || !currentSong}
+                className={cn('w-full', !canControl && 'cursor-not-allowed')}
                 style={{ '--progress': `${progressPct}%` } as React.CSSProperties}
                 aria-label="Seek"
               />
@@ -488,10 +672,10 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
               {/* Play/Pause */}
               <button
                 onClick={isPlaying ? handlePause : handlePlay}
-                disabled={!currentSong || !isHost}
+                disabled={!currentSong || !canControl}
                 className={cn(
                   'w-14 h-14 rounded-full flex items-center justify-center transition-all duration-200',
-                  currentSong && isHost
+                  currentSong && canControl
                     ? 'bg-s-violet hover:bg-s-violet/90 text-white shadow-glow-sm active:scale-95'
                     : 'bg-s-card text-s-muted cursor-not-allowed border border-s-border'
                 )}
@@ -503,14 +687,24 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                 }
               </button>
 
-              <button
-                onClick={handleSkip}
-                disabled={!isHost}
-                className="text-s-muted hover:text-s-sub transition-colors disabled:opacity-30"
-                aria-label="Skip"
-              >
-                <SkipForward size={20} />
-              </button>
+              <div className="relative flex items-center">
+                <button
+                  onClick={canControl ? handleSkip : handleVoteSkip}
+                  disabled={!canControl && (!currentSong || hasVotedSkip)}
+                  className={cn('transition-colors disabled:opacity-30',
+                    hasVotedSkip ? 'text-s-violet disabled:opacity-100' : 'text-s-muted hover:text-s-sub'
+                  )}
+                  aria-label={canControl ? 'Skip' : 'Vote to skip'}
+                  title={canControl ? 'Skip' : hasVotedSkip ? 'You voted to skip' : 'Vote to skip'}
+                >
+                  <SkipForward size={20} />
+                </button>
+                {liveSkipVotes && liveSkipVotes.votes > 0 && (
+                  <span className="absolute left-full ml-1.5 text-[10px] font-mono text-s-violet whitespace-nowrap">
+                    {liveSkipVotes.votes}/{liveSkipVotes.needed}
+                  </span>
+                )}
+              </div>
             </div>
 
             {/* Volume */}
@@ -535,8 +729,24 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
             </div>
           </div>
 
-          {/* Non-host notice */}
-          {!isHost && (
+          {/* Host: per-room drift correction thresholds */}
+          {isHost && (
+            <SyncSettings settings={room.sync_settings} onChange={updateSyncSettings} />
+          )}
+
+          {/* Browser refused to start audio without a click */}
+          {health === 'autoplay_blocked' && (
+            <button
+              onClick={() => playerRef.current?.play()}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400 hover:bg-red-500/15 transition-all"
+            >
+              <VolumeX size={12} />
+              Your browser blocked autoplay — click to start listening
+            </button>
+          )}
+
+          {/* Listener notice */}
+          {!canControl && (
             <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-s-violet/8 border border-s-violet/20 text-xs text-s-sub">
               <Radio size={12} className="text-s-violet flex-shrink-0" />
               Synced to host · Controls locked
@@ -552,7 +762,9 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
               volume={effectiveVolume}
               onTimeUpdate={setCurrentTime}
               onEnded={handleEnded}
+              onPlaybackChange={setPlayback}
               onReady={() => {
+                syncEngine.setPlayerReady(true)
                 if (isHost && room?.status === 'playing') {
                   setTimeout(() => playerRef.current?.play().catch(() => {}), 200)
                 }
@@ -569,6 +781,7 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
             {[
               { id: 'queue' as Panel, label: 'Queue', icon: <ListMusic size={14} />, count: room.queue.length },
               { id: 'search' as Panel, label: 'Search', icon: <Search size={14} /> },
+              { id: 'chat' as Panel, label: 'Chat', icon: <MessageCircle size={14} />, count: messages.length - chatSeen },
               { id: 'members' as Panel, label: 'Members', icon: <Users size={14} />, count: members.length },
             ].map(tab => (
               <button
@@ -624,7 +837,7 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                           Poll
                         </button>
                         <button
-                          onClick={() => { setPanel('search'); setShowSearch(true) }}
+                          onClick={() => setPanel('search')}
                           className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg bg-s-card border border-s-border text-s-sub hover:text-s-text hover:border-s-violet/30 transition-all"
                         >
                           <Plus size={12} />
@@ -651,7 +864,7 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                     ) : room.queue.map((song, idx) => (
                       <div
                         key={song.id}
-                        draggable={isHost}
+                        draggable={canControl}
                         onDragStart={() => handleDragStart(idx)}
                         onDragOver={e => handleDragOver(e, idx)}
                         onDragEnd={handleDragEnd}
@@ -660,10 +873,10 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                           dragIdx === idx
                             ? 'bg-s-violet/10 border-s-violet/30'
                             : 'bg-s-surface/50 border-transparent hover:bg-s-card hover:border-s-border',
-                          isHost && 'cursor-grab active:cursor-grabbing'
+                          canControl && 'cursor-grab active:cursor-grabbing'
                         )}
                       >
-                        {isHost && <GripVertical size={14} className="text-s-muted flex-shrink-0 opacity-0 group-hover:opacity-100" />}
+                        {canControl && <GripVertical size={14} className="text-s-muted flex-shrink-0 opacity-0 group-hover:opacity-100" />}
                         <span className="text-xs text-s-muted font-mono w-5 text-center flex-shrink-0">{idx + 1}</span>
 
                         <div className="w-9 h-9 rounded-lg bg-s-card flex-shrink-0 overflow-hidden border border-s-border/50">
@@ -685,9 +898,9 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                           {song.duration ? formatTime(song.duration) : '—'}
                         </div>
 
-                        {isHost && (
+                        {canControl && (
                           <button
-                            onClick={() => removeSong(song.id)}
+                            onClick={() => removeFromQueue(song.id)}
                             className="text-s-muted hover:text-red-400 transition-colors flex-shrink-0 opacity-0 group-hover:opacity-100"
                             aria-label="Remove"
                           >
@@ -714,6 +927,20 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                 </motion.div>
               )}
 
+              {/* ── CHAT ── */}
+              {panel === 'chat' && (
+                <motion.div
+                  key="chat"
+                  initial={{ opacity: 0, x: -8 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0 }}
+                  transition={{ duration: 0.15 }}
+                  className="h-full"
+                >
+                  <ChatPanel messages={messages} userId={userId} onSend={sendMessage} disabled={selfMuted} />
+                </motion.div>
+              )}
+
               {/* ── MEMBERS ── */}
               {panel === 'members' && (
                 <motion.div
@@ -745,19 +972,104 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
                         <div className="w-10 h-10 rounded-full bg-gradient-to-br from-s-violet to-s-indigo flex items-center justify-center text-white font-bold text-sm uppercase">
                           {(member.username || '?')[0]}
                         </div>
-                        <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full bg-s-green border-2 border-s-bg" />
+                        <div className={cn(
+                          'absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-s-bg',
+                          member.connection === 'reconnecting' ? 'bg-s-amber animate-pulse' : 'bg-s-green'
+                        )} />
                       </div>
-                      <div className="flex-1 min-w-0">
+                      <div className={cn('flex-1 min-w-0', member.connection === 'reconnecting' && 'opacity-60')}>
                         <p className="text-sm font-medium text-s-text truncate">
                           {member.username || 'Anonymous'}
                         </p>
                         <p className="text-xs text-s-muted">
-                          {member.user_id === room.host_id ? '👑 Host' : 'Listener'}
+                          {member.user_id === hostId ? '👑 Host' : member.role === 'dj' ? '🎧 DJ' : 'Listener'}
+                          {member.chat_muted && ' · 🔇 Chat muted'}
+                          {member.connection === 'reconnecting' && ' · reconnecting…'}
+                          {member.connection !== 'reconnecting' && member.health && (
+                            <span className={HEALTH_BADGE[member.health].className}>
+                              {' · '}{HEALTH_BADGE[member.health].label}
+                            </span>
+                          )}
                         </p>
                       </div>
                       {member.user_id === userId && (
                         <span className="text-xs text-s-sub bg-s-surface px-2 py-0.5 rounded-full">You</span>
                       )}
+                      {isHost && member.user_id !== userId && banMenuFor === member.user_id && (
+                        <div className="flex gap-1 flex-shrink-0">
+                          {BAN_DURATIONS.map(({ label, seconds }) => (
+                            <button
+                              key={label}
+                              onClick={() => { ban(member.user_id, seconds); setBanMenuFor(null) }}
+                              className="h-7 px-2 rounded-lg border border-red-400/30 text-xs text-red-400 hover:bg-red-400/10 transition-all"
+                              title={seconds ? `Ban for ${label}` : 'Ban permanently'}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => setBanMenuFor(null)}
+                            className="h-7 px-2 rounded-lg border border-s-border/60 text-xs text-s-muted hover:text-s-text transition-all"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                      {isHost && member.user_id !== userId && banMenuFor !== member.user_id && (
+                        <div className="flex gap-1 flex-shrink-0">
+                          <button
+                            onClick={() => setDj(member.user_id, member.role !== 'dj')}
+                            className={cn(
+                              'w-7 h-7 flex items-center justify-center rounded-lg border transition-all',
+                              member.role === 'dj'
+                                ? 'bg-s-cyan/15 border-s-cyan/30 text-s-cyan'
+                                : 'border-s-border/60 text-s-muted hover:text-s-text'
+                            )}
+                            title={member.role === 'dj' ? 'Revoke DJ' : 'Make DJ'}
+                            aria-label={member.role === 'dj' ? 'Revoke DJ' : 'Make DJ'}
+                          >
+                            <Headphones size={12} />
+                          </button>
+                          <button
+                            onClick={() => handleTransferHost(member.user_id)}
+                            disabled={member.connection === 'reconnecting'}
+                            className="w-7 h-7 flex items-center justify-center rounded-lg border border-s-border/60 text-s-muted hover:text-s-violet hover:border-s-violet/30 transition-all disabled:opacity-30"
+                            title="Make host"
+                            aria-label="Make host"
+                          >
+                            <Crown size={12} />
+                          </button>
+                          <button
+                            onClick={() => setMuted(member.user_id, !member.chat_muted)}
+                            className={cn(
+                              'w-7 h-7 flex items-center justify-center rounded-lg border transition-all',
+                              member.chat_muted
+                                ? 'bg-s-amber/15 border-s-amber/30 text-s-amber'
+                                : 'border-s-border/60 text-s-muted hover:text-s-text'
+                            )}
+                            title={member.chat_muted ? 'Unmute chat' : 'Mute chat'}
+                            aria-label={member.chat_muted ? 'Unmute chat' : 'Mute chat'}
+                          >
+                            <MessageSquareOff size={12} />
+                          </button>
+                          <button
+                            onClick={() => kick(member.user_id)}
+                            className="w-7 h-7 flex items-center justify-center rounded-lg border border-s-border/60 text-s-muted hover:text-red-400 hover:border-red-400/30 transition-all"
+                            title="Kick"
+                            aria-label="Kick"
+                          >
+                            <UserX size={12} />
+                          </button>
+                          <button
+                            onClick={() => setBanMenuFor(member.user_id)}
+                            className="w-7 h-7 flex items-center justify-center rounded-lg border border-s-border/60 text-s-muted hover:text-red-400 hover:border-red-400/30 transition-all"
+                            title="Ban"
+                            aria-label="Ban"
+                          >
+                            <Ban size={12} />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </motion.div>
@@ -771,7 +1083,6 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
           poll={activePoll ?? null}
           isHost={isHost}
           currentUserId={userId}
-          queue={room.queue}
           onVote={vote}
           onClose={() => activePoll && closePoll(activePoll.id)}
           onCreatePoll={() => setShowCreatePoll(true)}
@@ -792,6 +1103,20 @@ export const Room = ({ roomId, userId, username }: RoomProps) => {
           />
         )}
       </AnimatePresence>
+
+      {/* Host sync debug overlay */}
+      <AnimatePresence>
+        {isHost && showSyncDebug && (
+          <SyncDebugOverlay
+            telemetry={telemetry}
+            localPosition={currentTime}
+            serverNow={serverNow()}
+            nudgeThreshold={nudgeThreshold}
+            seekThreshold={room.sync_settings?.seek_threshold ?? DEFAULT_THRESHOLDS.seekThreshold}
+            onClose={() => setShowSyncDebug(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   )
 }
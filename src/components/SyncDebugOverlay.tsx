@@ -0,0 +1,110 @@
+import { Activity, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import type { SyncSample, SyncTelemetry } from '@/types'
+import { cn } from '@/lib/utils'
+
+// ─── Host-only sync debug overlay ─────────────────────────────────────────────
+
+interface SyncDebugOverlayProps {
+  telemetry: SyncTelemetry | null
+  localPosition: number
+  serverNow: number
+  nudgeThreshold: number
+  seekThreshold: number
+  onClose: () => void
+}
+
+const GRAPH_W = 120
+const GRAPH_H = 28
+
+const ms = (seconds: number) => `${Math.round(seconds * 1000)}ms`
+
+/** Drift sparkline — the band is ±seekThreshold, dashed lines are ±nudgeThreshold */
+const DriftGraph = ({ samples, nudge, seek }: { samples: SyncSample[]; nudge: number; seek: number }) => {
+  const y = (drift: number) => GRAPH_H / 2 - (Math.max(-seek, Math.min(seek, drift)) / seek) * (GRAPH_H / 2)
+  const step = samples.length > 1 ? GRAPH_W / (samples.length - 1) : 0
+  const points = samples.map((s, i) => `${(i * step).toFixed(1)},${y(s.drift).toFixed(1)}`).join(' ')
+
+  return (
+    <svg width={GRAPH_W} height={GRAPH_H} className="flex-shrink-0 rounded bg-s-deep/80">
+      <line x1={0} x2={GRAPH_W} y1={GRAPH_H / 2} y2={GRAPH_H / 2} className="stroke-s-border" strokeWidth={1} />
+      {[nudge, -nudge].map(v => (
+        <line key={v} x1={0} x2={GRAPH_W} y1={y(v)} y2={y(v)} className="stroke-s-amber/40" strokeWidth={1} strokeDasharray="2 2" />
+      ))}
+      {samples.length > 1 && (
+        <polyline points={points} fill="none" className="stroke-s-cyan" strokeWidth={1.5} />
+      )}
+    </svg>
+  )
+}
+
+export const SyncDebugOverlay = ({
+  telemetry, localPosition, serverNow, nudgeThreshold, seekThreshold, onClose,
+}: SyncDebugOverlayProps) => {
+  // Extrapolate the last server position to "now" so it ticks between polls
+  const serverPosition = telemetry
+    ? telemetry.server_position + (telemetry.status === 'playing' ? (serverNow - telemetry.server_time) / 1000 : 0)
+    : null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 8 }}
+      className="fixed bottom-4 left-4 z-50 w-[360px] max-h-[60vh] overflow-y-auto rounded-xl border border-s-border bg-s-surface/95 backdrop-blur-xl shadow-2xl text-xs font-mono"
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-s-border/60 sticky top-0 bg-s-surface/95">
+        <Activity size={12} className="text-s-cyan" />
+        <span className="flex-1 font-body font-medium text-s-text">Sync debug</span>
+        <button onClick={onClose} className="text-s-muted hover:text-s-text" aria-label="Close sync debug">
+          <X size={12} />
+        </button>
+      </div>
+
+      {!telemetry ? (
+        <p className="px-3 py-4 text-s-muted">Waiting for server…</p>
+      ) : (
+        <div className="p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-s-sub">
+            <span>server pos</span>
+            <span className="text-s-text">{serverPosition?.toFixed(2)}s <span className="text-s-muted">({telemetry.status})</span></span>
+            <span>host pos</span>
+            <span className="text-s-text">
+              {localPosition.toFixed(2)}s
+              {serverPosition !== null && (
+                <span className="text-s-muted"> (Δ {ms(localPosition - serverPosition)})</span>
+              )}
+            </span>
+            <span>avg |drift|</span>
+            <span className="text-s-text">{ms(telemetry.summary.avg_abs_drift)}</span>
+            <span>max |drift|</span>
+            <span className={cn(telemetry.summary.max_abs_drift > seekThreshold ? 'text-red-400' : 'text-s-text')}>
+              {ms(telemetry.summary.max_abs_drift)}
+            </span>
+            <span>avg rtt</span>
+            <span className="text-s-text">{Math.round(telemetry.summary.avg_rtt)}ms</span>
+            <span>seeks</span>
+            <span className="text-s-text">{telemetry.summary.total_seeks} <span className="text-s-muted">({telemetry.summary.reporting} reporting)</span></span>
+          </div>
+
+          <div className="space-y-2">
+            {telemetry.members.map(m => {
+              const last = m.samples[m.samples.length - 1]
+              return (
+                <div key={m.user_id} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate font-body text-s-text">{m.username}</p>
+                    <p className="text-[10px] text-s-muted">
+                      {last ? `${ms(last.drift)} · ${Math.round(last.rtt)}ms rtt` : '—'} · {m.seeks} seeks
+                    </p>
+                  </div>
+                  <DriftGraph samples={m.samples} nudge={nudgeThreshold} seek={seekThreshold} />
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  )
+}
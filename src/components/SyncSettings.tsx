@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react'
+import { DEFAULT_THRESHOLDS } from '@/lib/syncEngine'
+import type { RoomSyncSettings } from '@/types'
+
+// ─── Host-only drift correction thresholds ────────────────────────────────────
+
+interface SyncSettingsProps {
+  settings: RoomSyncSettings | null | undefined
+  onChange: (settings: RoomSyncSettings) => void
+}
+
+export const SyncSettings = ({ settings, onChange }: SyncSettingsProps) => {
+  const [open, setOpen] = useState(false)
+  // Slider values while dragging — saved to the room once the slider is let go
+  const [draft, setDraft] = useState<RoomSyncSettings | null>(null)
+
+  const nudge = draft?.nudge_threshold ?? settings?.nudge_threshold ?? DEFAULT_THRESHOLDS.nudgeThreshold
+  const seek  = draft?.seek_threshold ?? settings?.seek_threshold ?? DEFAULT_THRESHOLDS.seekThreshold
+
+  // Seek threshold can never drop below the nudge threshold
+  const update = (next: Partial<RoomSyncSettings>) => {
+    const merged = { nudge_threshold: nudge, seek_threshold: seek, ...next }
+    setDraft({ ...merged, seek_threshold: Math.max(merged.seek_threshold, merged.nudge_threshold) })
+  }
+
+  const save = () => {
+    if (!draft) return
+    onChange(draft)
+    setDraft(null)
+  }
+
+  return (
+    <div className="rounded-lg border border-s-border/40 bg-s-card/40 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-s-sub hover:text-s-text transition-colors"
+      >
+        <SlidersHorizontal size={12} className="text-s-violet flex-shrink-0" />
+        <span className="flex-1 text-left">Sync tuning</span>
+        {open ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          <label className="block space-y-1">
+            <div className="flex justify-between text-s-muted">
+              <span>Nudge speed above</span>
+              <span className="font-mono">{Math.round(nudge * 1000)}ms</span>
+            </div>
+            <input
+              type="range"
+              min={0.02}
+              max={0.5}
+              step={0.01}
+              value={nudge}
+              onChange={e => update({ nudge_threshold: parseFloat(e.target.value) })}
+              onPointerUp={save}
+              onKeyUp={save}
+              onBlur={save}
+              style={{ '--progress': `${((nudge - 0.02) / 0.48) * 100}%` } as React.CSSProperties}
+              className="w-full"
+              aria-label="Nudge threshold"
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <div className="flex justify-between text-s-muted">
+              <span>Hard seek above</span>
+              <span className="font-mono">{seek.toFixed(1)}s</span>
+            </div>
+            <input
+              type="range"
+              min={0.3}
+              max={5}
+              step={0.1}
+              value={seek}
+              onChange={e => update({ seek_threshold: parseFloat(e.target.value) })}
+              onPointerUp={save}
+              onKeyUp={save}
+              onBlur={save}
+              style={{ '--progress': `${((seek - 0.3) / 4.7) * 100}%` } as React.CSSProperties}
+              className="w-full"
+              aria-label="Seek threshold"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import type { Session, User } from '@supabase/supabase-js'
 import { supabase, signInAnon, signInEmail, signUpEmail, signOut as sbSignOut } from '@/services/supabaseClient'
+import { setSocketAuth } from '@/services/socket'
 
 interface AuthState {
   user: User | null
@@ -18,11 +19,13 @@ export const useAuth = () => {
   useEffect(() => {
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
+      setSocketAuth(session?.access_token ?? null, session?.user.id ?? null)
       setState({ user: session?.user ?? null, session, loading: false })
     })
 
-    // Listen for auth changes
+    // Listen for auth changes (incl. token refresh)
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSocketAuth(session?.access_token ?? null, session?.user.id ?? null)
       setState({ user: session?.user ?? null, session, loading: false })
     })
 
@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react'
+import type { Reaction, ReactionEmoji } from '@/types'
+
+const FLOAT_MS     = 2200
+const MAX_FLOATING = 24
+
+export interface FloatingReaction {
+  id: string
+  emoji: ReactionEmoji
+  x: number    // px offset from the disc centre
+}
+
+/** Float-up queue for live reactions; each one removes itself after FLOAT_MS */
+export const useFloatingReactions = () => {
+  const [floating, setFloating] = useState<FloatingReaction[]>([])
+
+  const push = useCallback((reaction: Reaction) => {
+    const item = { id: reaction.id, emoji: reaction.emoji, x: Math.round(Math.random() * 120 - 60) }
+    setFloating(prev => [...prev, item].slice(-MAX_FLOATING))
+    setTimeout(() => setFloating(prev => prev.filter(f => f.id !== item.id)), FLOAT_MS)
+  }, [])
+
+  return { floating, push, durationMs: FLOAT_MS }
+}
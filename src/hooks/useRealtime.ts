@@ -11,67 +11,148 @@
  * 2. Effect registers named handlers for clean removal on unmount
  * 3. joinRoomChannel: sends join_room immediately if connected, or queues via once('connect')
  * 4. Server responds with room_state → sets members + syncs position
+ *    (on a reconnect it replays only what was missed since the last seq seen)
  * 5. All subsequent members_update events keep member list current
+ * 6. Queue is server-owned: clients send add/remove/move ops and apply queue_update
+ * 7. Host and DJs may control playback; the server enforces roles
+ * 8. Playback changes carry a room playback version — older ones are dropped
  */
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { supabase } from '@/services/supabaseClient'
 import {
   getSocket,
-  joinRoomChannel,
   leaveRoomChannel,
   emitSync,
   emitPlay,
   emitPause,
   emitNextSong,
   emitSongChange,
+  emitAddSong,
+  emitRemoveSong,
+  emitMoveSong,
+  emitSeedQueue,
   emitRequestState,
+  emitVoteSkip,
+  emitChatMessage,
+  emitReaction,
+  emitMemberStatus,
+  emitTransferHost,
+  emitGrantRole,
+  emitRevokeRole,
+  emitKickMember,
+  emitBanMember,
+  emitMuteMember,
+  emitUnmuteMember,
+  serverNow,
 } from '@/services/socket'
-import type { Room, Poll, RoomMember, SyncEvent, Song } from '@/types'
+import type {
+  RoomStateEvent, MembersUpdateEvent, QueueUpdateEvent, SongChangeEvent, SkipVotesEvent, RemovedEvent, Sequenced,
+  Versioned, SocketErrorEvent,
+} from '@shared/events'
+import type {
+  Room, Poll, RoomMember, SyncEvent, Song, SkipVoteState, ChatMessage, Reaction, ReactionEmoji,
+  MemberHealth,
+} from '@/types'
 
 interface UseRealtimeOptions {
   roomId:    string
   userId:    string
   username:  string
   isHost:    boolean
+  // Host or DJ — may send playback controls
+  canControl: boolean
+  // DB copy of the queue, used to seed the server's queue on first join
+  queue?:    Song[]
+  // This client's playback health, reported to the room whenever it changes
+  health?:   MemberHealth
   onSync?:         (event: SyncEvent) => void
   onRoomUpdate?:   (room: Room) => void
   onPollUpdate?:   (poll: Poll) => void
-  onSongChange?:   (song: Song | null) => void
+  // startedAt (server clock) is set when the song was just started by the server
+  onSongChange?:   (song: Song | null, startedAt?: number) => void
   onMembersUpdate?: (members: RoomMember[]) => void
+  // Host as tracked by the socket server (the one it enforces)
+  onHostChange?:   (hostId: string | null) => void
   // ADDED: Queue update callback
   onQueueUpdate?:  (queue: Song[]) => void
+  // Live reactions only (not the history in room_state) — for the float-up effect
+  onReaction?:     (reaction: Reaction) => void
+}
+
+const REACTION_HISTORY = 500
+
+// Set once the server takes this client out of the room (or won't let it in) — it won't rejoin
+export interface RoomRemoval {
+  kind: 'kicked' | 'closed' | 'banned' | 'private'
+  reason?: string
 }
 
 export const useRealtime = ({
-  roomId, userId, username, isHost,
-  onSync, onRoomUpdate, onPollUpdate, onSongChange, onMembersUpdate, onQueueUpdate,
+  roomId, userId, username, isHost, canControl, queue, health,
+  onSync, onRoomUpdate, onPollUpdate, onSongChange, onMembersUpdate, onQueueUpdate, onHostChange,
+  onReaction,
 }: UseRealtimeOptions) => {
   const [connected, setConnected] = useState(() => getSocket().connected)
   const [members, setMembers]     = useState<RoomMember[]>([])
+  const [skipVotes, setSkipVotes] = useState<SkipVoteState | null>(null)
+  const [messages, setMessages]   = useState<ChatMessage[]>([])
+  const [reactions, setReactions] = useState<Reaction[]>([])
+  const [removed, setRemoved]     = useState<RoomRemoval | null>(null)
 
   // Stable refs
   const isHostRef      = useRef(isHost)
+  const canControlRef  = useRef(canControl)
+  const queueRef       = useRef(queue)
   const onSyncRef      = useRef(onSync)
   const onSongChRef    = useRef(onSongChange)
   const onQueueRef     = useRef(onQueueUpdate)
   const onMembersRef   = useRef(onMembersUpdate)
+  const onHostRef      = useRef(onHostChange)
+  const onReactionRef  = useRef(onReaction)
+  const onRoomUpdateRef = useRef(onRoomUpdate)
+  const onPollUpdateRef = useRef(onPollUpdate)
+  // Playback version last applied (or proposed) here — see Versioned in shared/events
+  const playbackVersionRef = useRef(0)
 
   useEffect(() => { isHostRef.current  = isHost       }, [isHost])
+  useEffect(() => { canControlRef.current = canControl }, [canControl])
+  useEffect(() => { queueRef.current   = queue        }, [queue])
   useEffect(() => { onSyncRef.current  = onSync       }, [onSync])
   useEffect(() => { onSongChRef.current = onSongChange }, [onSongChange])
   useEffect(() => { onQueueRef.current = onQueueUpdate }, [onQueueUpdate])
   useEffect(() => { onMembersRef.current = onMembersUpdate }, [onMembersUpdate])
+  useEffect(() => { onHostRef.current = onHostChange }, [onHostChange])
+  useEffect(() => { onReactionRef.current = onReaction }, [onReaction])
+  useEffect(() => { onRoomUpdateRef.current = onRoomUpdate }, [onRoomUpdate])
+  useEffect(() => { onPollUpdateRef.current = onPollUpdate }, [onPollUpdate])
 
   // ── Socket.io ──────────────────────────────────────────────────────────────
   useEffect(() => {
     if (!roomId || !userId) return
 
     const socket = getSocket()
+    playbackVersionRef.current = 0
+
+    // Highest room event seq handled — replays and duplicates at or below it are dropped
+    let lastSeq: number | null = null
+    const isNew = (data: { room_id: string; seq: number }) => {
+      if (data.room_id !== roomId) return false
+      if (lastSeq !== null && data.seq <= lastSeq) return false
+      lastSeq = data.seq
+      return true
+    }
+
+    // Older than the playback state already applied — a change that lost a race
+    const isStale = (version: number) => {
+      if (version < playbackVersionRef.current) return true
+      playbackVersionRef.current = version
+      return false
+    }
 
     const handleConnect = () => {
-      console.log('[Syncy] ✅ Socket connected — joining room:', roomId)
+      console.log('[Syncy] ✅ Socket connected — joining room:', roomId, lastSeq === null ? '' : `(since ${lastSeq})`)
       setConnected(true)
-      socket.emit('join_room', { room_id: roomId, user_id: userId, username })
+      socket.emit('join_room', { room_id: roomId, username, queue: queueRef.current, since: lastSeq ?? undefined })
     }
 
     const handleDisconnect = (reason: string) => {
@@ -80,24 +161,22 @@ export const useRealtime = ({
     }
 
     // Handles the full initial state when joining or reconnecting
-    const handleRoomState = (data: {
-      room_id: string
-      currentSong: Song | null
-      queue: Song[]
-      position: number
-      status: 'playing' | 'paused' | 'idle'
-      server_time: number
-      members: RoomMember[]
-    }) => {
+    const handleRoomState = (data: RoomStateEvent) => {
       if (data.room_id !== roomId) return
       console.log('[Syncy] room_state →', data.members.length, 'members, status:', data.status)
-      
+      lastSeq = data.seq
+      playbackVersionRef.current = data.version
+
       setMembers([...data.members])
+      setSkipVotes(data.skip_votes)
+      setMessages(data.messages ?? [])
+      setReactions(data.reactions ?? [])
       onMembersRef.current?.(data.members)
+      onHostRef.current?.(data.host_id)
 
       // Sync everything
       if (data.queue) onQueueRef.current?.(data.queue)
-      onSongChRef.current?.(data.currentSong)
+      if (!isHostRef.current) onSongChRef.current?.(data.currentSong)
 
       // Non-host: seek to current live position
       if (!isHostRef.current && (data.status === 'playing' || data.status === 'paused')) {
@@ -110,28 +189,67 @@ export const useRealtime = ({
       }
     }
 
-    const handleQueueUpdate = (data: { room_id: string; queue: Song[] }) => {
-      if (data.room_id !== roomId) return
+    const handleQueueUpdate = (data: Sequenced<QueueUpdateEvent>) => {
+      if (!isNew(data)) return
       console.log('[Syncy] queue_update →', data.queue.length, 'songs')
       onQueueRef.current?.(data.queue)
     }
 
-    const handleMembersUpdate = (data: { room_id: string; members: RoomMember[] }) => {
-      if (data.room_id !== roomId) return
+    const handleMembersUpdate = (data: Sequenced<MembersUpdateEvent>) => {
+      if (!isNew(data)) return
       setMembers([...data.members])
       onMembersRef.current?.(data.members)
+      onHostRef.current?.(data.host_id)
+    }
+
+    const handleSkipVotes = (data: Sequenced<SkipVotesEvent>) => {
+      if (!isNew(data)) return
+      setSkipVotes(data)
     }
 
-    const handleSyncPosition = (event: SyncEvent) => {
-      if (event.room_id !== roomId) return
-      if (isHostRef.current) return
+    // Echoed to the sender too — that copy is the one it persists (without seq,
+    // which isn't a messages column)
+    const handleChatMessage = ({ seq, ...message }: Sequenced<ChatMessage>) => {
+      if (!isNew({ room_id: message.room_id, seq })) return
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
+    }
+
+    const handleReaction = (reaction: Sequenced<Reaction>) => {
+      if (!isNew(reaction)) return
+      setReactions(prev => [...prev, reaction].slice(-REACTION_HISTORY))
+      onReactionRef.current?.(reaction)
+    }
+
+    // The host's own heartbeat never echoes back, so what the host receives
+    // here is a DJ's play/pause/seek — passed on for the host to obey
+    const handleSyncPosition = (event: Sequenced<Versioned<SyncEvent>>) => {
+      if (!isNew(event) || isStale(event.version)) return
       onSyncRef.current?.(event)
     }
 
-    const handleSongChange = (data: { room_id: string; song: Song | null }) => {
+    // Delivered to the host too — the server advances the queue, not the host
+    const handleSongChange = (data: Sequenced<SongChangeEvent>) => {
+      if (!isNew(data) || isStale(data.version)) return
+      onSongChRef.current?.(data.song, data.server_time)
+    }
+
+    // Kicked or room closed — stop rejoining on reconnect
+    const handleRemoved = (kind: RoomRemoval['kind']) => (data: RemovedEvent) => {
       if (data.room_id !== roomId) return
-      if (isHostRef.current) return
-      onSongChRef.current?.(data.song)
+      console.warn(`[Syncy] ⛔ Removed from room (${kind}):`, data.reason)
+      socket.off('connect', handleConnect)
+      setRemoved({ kind, reason: data.reason })
+    }
+    const handleKicked     = handleRemoved('kicked')
+    const handleRoomClosed = handleRemoved('closed')
+    const handleBanned     = handleRemoved('banned')
+    const handlePrivate    = handleRemoved('private')
+
+    // Refused at join_room — the only rejections that end the session
+    const handleError = (e: SocketErrorEvent) => {
+      if (e.event !== 'join_room') return
+      if (e.code === 'banned') handleBanned({ room_id: e.room_id ?? '' })
+      else if (e.code === 'private_room') handlePrivate({ room_id: e.room_id ?? '' })
     }
 
     // Register handlers
@@ -140,13 +258,19 @@ export const useRealtime = ({
     socket.on('room_state',     handleRoomState)
     socket.on('queue_update',   handleQueueUpdate) // ADDED
     socket.on('members_update', handleMembersUpdate)
+    socket.on('skip_votes',     handleSkipVotes)
+    socket.on('chat_message',   handleChatMessage)
+    socket.on('reaction',       handleReaction)
     socket.on('sync_position',  handleSyncPosition)
     socket.on('song_change',    handleSongChange)
+    socket.on('kicked',         handleKicked)
+    socket.on('room_closed',    handleRoomClosed)
+    socket.on('error',          handleError)
 
     // Join logic
     if (socket.connected) {
-      socket.emit('join_room', { room_id: roomId, user_id: userId, username })
-      if (!isHost) {
+      socket.emit('join_room', { room_id: roomId, username, queue: queueRef.current })
+      if (!isHostRef.current) {
         setTimeout(() => emitRequestState(roomId), 200)
       }
     }
@@ -159,27 +283,47 @@ export const useRealtime = ({
       socket.off('room_state',     handleRoomState)
       socket.off('queue_update',   handleQueueUpdate)
       socket.off('members_update', handleMembersUpdate)
+      socket.off('skip_votes',     handleSkipVotes)
+      socket.off('chat_message',   handleChatMessage)
+      socket.off('reaction',       handleReaction)
       socket.off('sync_position',  handleSyncPosition)
       socket.off('song_change',    handleSongChange)
-      leaveRoomChannel(roomId, userId)
+      socket.off('kicked',         handleKicked)
+      socket.off('room_closed',    handleRoomClosed)
+      socket.off('error',          handleError)
+      leaveRoomChannel(roomId)
     }
   }, [roomId, userId, username])
 
+  // ── Seed server queue once the DB row has loaded ──────────────────────────
+  const queueLoaded = queue !== undefined
+  useEffect(() => {
+    if (!roomId || !queueLoaded || !queueRef.current) return
+    // If not connected yet, join_room on connect carries the queue instead
+    if (getSocket().connected) emitSeedQueue(roomId, queueRef.current)
+  }, [roomId, queueLoaded])
+
+  // ── Report playback health (again after every reconnect) ──────────────────
+  useEffect(() => {
+    if (!roomId || !health || !connected) return
+    emitMemberStatus(roomId, health)
+  }, [roomId, health, connected])
+
   // ── Supabase Realtime ──────────────────────────────────────────────────────
   useEffect(() => {
     if (!roomId) return
     const channel = supabase.channel(`db:room:${roomId}`)
       .on('postgres_changes',
         { event: 'UPDATE', schema: 'public', table: 'rooms', filter: `id=eq.${roomId}` },
-        (p) => onRoomUpdate?.(p.new as Room)
+        (p) => onRoomUpdateRef.current?.(p.new as Room)
       )
       .on('postgres_changes',
         { event: 'INSERT', schema: 'public', table: 'polls', filter: `room_id=eq.${roomId}` },
-        (p) => onPollUpdate?.(p.new as Poll)
+        (p) => onPollUpdateRef.current?.(p.new as Poll)
       )
       .on('postgres_changes',
         { event: 'UPDATE', schema: 'public', table: 'polls', filter: `room_id=eq.${roomId}` },
-        (p) => onPollUpdate?.(p.new as Poll)
+        (p) => onPollUpdateRef.current?.(p.new as Poll)
       )
       .subscribe()
 
@@ -188,37 +332,113 @@ export const useRealtime = ({
 
   // ── Broadcast helpers ─────────────────────────────────────────────────────
   const broadcastPlay = useCallback((position: number) => {
-    if (!isHostRef.current) return
-    emitPlay(roomId, position)
+    if (!canControlRef.current) return
+    emitPlay(roomId, position, ++playbackVersionRef.current)
   }, [roomId])
 
   const broadcastPause = useCallback((position: number) => {
-    if (!isHostRef.current) return
-    emitPause(roomId, position)
+    if (!canControlRef.current) return
+    emitPause(roomId, position, ++playbackVersionRef.current)
   }, [roomId])
 
-  const broadcastNext = useCallback(() => {
-    if (!isHostRef.current) return
-    emitNextSong(roomId)
+  const broadcastNext = useCallback((songId?: string) => {
+    if (!canControlRef.current) return
+    emitNextSong(roomId, songId)
   }, [roomId])
 
+  // A seek — a playback change of its own
   const broadcastPosition = useCallback((position: number, status: 'playing' | 'paused') => {
-    if (!isHostRef.current) return
-    emitSync({ room_id: roomId, position, status, server_time: Date.now() })
+    if (!canControlRef.current) return
+    emitSync({ room_id: roomId, position, status, server_time: serverNow(), version: ++playbackVersionRef.current })
+  }, [roomId])
+
+  // The host's periodic position report — repeats the current version
+  const broadcastHeartbeat = useCallback((position: number, status: 'playing' | 'paused') => {
+    if (!canControlRef.current) return
+    emitSync({ room_id: roomId, position, status, server_time: serverNow(), version: playbackVersionRef.current })
   }, [roomId])
 
   const broadcastSongChange = useCallback((song: Song | null) => {
-    if (!isHostRef.current) return
-    emitSongChange(roomId, song)
+    if (!canControlRef.current) return
+    emitSongChange(roomId, song, ++playbackVersionRef.current)
+  }, [roomId])
+
+  // ── Queue operations (any member) ─────────────────────────────────────────
+  const addToQueue = useCallback((song: Song, index?: number) => {
+    emitAddSong(roomId, song, index)
+  }, [roomId])
+
+  const removeFromQueue = useCallback((songId: string) => {
+    emitRemoveSong(roomId, songId)
+  }, [roomId])
+
+  const moveInQueue = useCallback((songId: string, toIndex: number) => {
+    emitMoveSong(roomId, songId, toIndex)
+  }, [roomId])
+
+  // ── Vote-to-skip (any member; the server skips at its threshold) ─────────
+  const voteSkip = useCallback((songId: string) => {
+    emitVoteSkip(roomId, songId)
+  }, [roomId])
+
+  // ── Chat ──────────────────────────────────────────────────────────────────
+  const sendMessage = useCallback((text: string) => {
+    if (text.trim()) emitChatMessage(roomId, text.trim())
+  }, [roomId])
+
+  // ── Reactions (server rate-limits) ───────────────────────────────────────
+  const react = useCallback((emoji: ReactionEmoji) => {
+    emitReaction(roomId, emoji)
+  }, [roomId])
+
+  // ── Roles (host only — the server rejects anyone else) ───────────────────
+  const transferHost = useCallback((targetId: string) => {
+    emitTransferHost(roomId, targetId)
+  }, [roomId])
+
+  const setDj = useCallback((targetId: string, isDj: boolean) => {
+    if (isDj) emitGrantRole(roomId, targetId, 'dj')
+    else emitRevokeRole(roomId, targetId, 'dj')
+  }, [roomId])
+
+  // ── Moderation (host only — the server rejects anyone else) ──────────────
+  const kick = useCallback((targetId: string) => {
+    emitKickMember(roomId, targetId)
+  }, [roomId])
+
+  // durationS left out = permanent
+  const ban = useCallback((targetId: string, durationS?: number) => {
+    emitBanMember(roomId, targetId, durationS)
+  }, [roomId])
+
+  const setMuted = useCallback((targetId: string, muted: boolean) => {
+    if (muted) emitMuteMember(roomId, targetId)
+    else emitUnmuteMember(roomId, targetId)
   }, [roomId])
 
   return {
     connected,
+    removed,
     members,
+    skipVotes,
+    messages,
+    reactions,
     broadcastPlay,
     broadcastPause,
     broadcastNext,
     broadcastPosition,
+    broadcastHeartbeat,
     broadcastSongChange,
+    addToQueue,
+    removeFromQueue,
+    moveInQueue,
+    voteSkip,
+    sendMessage,
+    react,
+    transferHost,
+    setDj,
+    kick,
+    ban,
+    setMuted,
   }
 }
\ No newline at end of file
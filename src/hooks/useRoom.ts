@@ -1,18 +1,17 @@
 import { useCallback } from 'react'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import {
   getRoom,
   updateRoom,
-  addToQueue,
-  removeFromQueue,
-  reorderQueue,
+  saveQueue,
   createPoll,
   getActivePoll,
   castVote,
   joinRoom,
   leaveRoom,
 } from '@/services/supabaseClient'
-import type { Room, Song, Poll } from '@/types'
+import { serverNow } from '@/services/socket'
+import type { Room, Song, Poll, RoomSyncSettings } from '@/types'
 import { useEffect } from 'react'
 
 export const useRoom = (roomId: string, userId: string, username: string) => {
@@ -38,39 +37,35 @@ export const useRoom = (roomId: string, userId: string, username: string) => {
     return () => { leaveRoom(roomId, userId) }
   }, [roomId, userId, username])
 
-  const addSongMutation = useMutation({
-    mutationFn: async (song: Song) => {
-      const current = room?.queue || []
-      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
-        old ? { ...old, queue: [...old.queue, song] } : old
-      )
-      return addToQueue(roomId, song, current)
-    },
-    onError: () => qc.invalidateQueries({ queryKey: ['room', roomId] }),
-  })
+  // Queue is owned by the socket server — these only mirror its broadcasts
+  const applyQueue = useCallback(
+    (queue: Song[]) => qc.setQueryData(['room', roomId], (old: Room | undefined) =>
+      old ? { ...old, queue } : old
+    ),
+    [roomId, qc]
+  )
 
-  const removeSongMutation = useMutation({
-    mutationFn: async (songId: string) => {
-      const current = room?.queue || []
-      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
-        old ? { ...old, queue: old.queue.filter((s) => s.id !== songId) } : old
-      )
-      return removeFromQueue(roomId, songId, current)
-    },
-  })
+  const persistQueue = useCallback(
+    (queue: Song[]) => saveQueue(roomId, queue),
+    [roomId]
+  )
 
-  const reorderMutation = useMutation({
-    mutationFn: (newQueue: Song[]) => reorderQueue(roomId, newQueue),
-    onMutate: (newQueue) => {
-      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
-        old ? { ...old, queue: newQueue } : old
-      )
-    },
-  })
+  const applyCurrentSong = useCallback(
+    (song: Song | null) => qc.setQueryData(['room', roomId], (old: Room | undefined) =>
+      old
+        ? {
+            ...old,
+            current_song: song ? { ...song, position: 0, startedAt: serverNow() } : null,
+            status: song ? 'playing' : 'idle',
+          }
+        : old
+    ),
+    [roomId, qc]
+  )
 
   const setCurrentSong = useCallback(
     async (song: Song | null, position = 0) => {
-      const current = song ? { ...song, position, startedAt: Date.now() } : null
+      const current = song ? { ...song, position, startedAt: serverNow() } : null
       qc.setQueryData(['room', roomId], (old: Room | undefined) =>
         old ? { ...old, current_song: current, status: song ? 'playing' : 'idle' } : old
       )
@@ -89,6 +84,27 @@ export const useRoom = (roomId: string, userId: string, username: string) => {
     [roomId, qc]
   )
 
+  // Outgoing host mirrors a confirmed socket host transfer so the new host passes RLS
+  const updateHost = useCallback(
+    async (host_id: string) => {
+      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
+        old ? { ...old, host_id } : old
+      )
+      await updateRoom(roomId, { host_id })
+    },
+    [roomId, qc]
+  )
+
+  const updateSyncSettings = useCallback(
+    async (sync_settings: RoomSyncSettings) => {
+      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
+        old ? { ...old, sync_settings } : old
+      )
+      await updateRoom(roomId, { sync_settings })
+    },
+    [roomId, qc]
+  )
+
   const startPoll = useCallback(
     async (options: Song[]) => {
       await createPoll(roomId, options)
@@ -108,28 +124,6 @@ export const useRoom = (roomId: string, userId: string, username: string) => {
     [roomId, userId, qc]
   )
 
-  const skipToNext = useCallback(async () => {
-    const currentRoom = qc.getQueryData<Room>(['room', roomId])
-    if (!currentRoom) return
-    const [next, ...rest] = currentRoom.queue
-    if (next) {
-      const newState = {
-        current_song: { ...next, position: 0, startedAt: Date.now() },
-        queue: rest,
-        status: 'playing' as const,
-      }
-      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
-        old ? { ...old, ...newState } : old
-      )
-      await updateRoom(roomId, newState)
-    } else {
-      qc.setQueryData(['room', roomId], (old: Room | undefined) =>
-        old ? { ...old, current_song: null, status: 'idle' } : old
-      )
-      await updateRoom(roomId, { current_song: null, status: 'idle' })
-    }
-  }, [roomId, qc])
-
   const applyRoomUpdate = useCallback(
     (data: Room) => qc.setQueryData(['room', roomId], data),
     [roomId, qc]
@@ -155,14 +149,15 @@ export const useRoom = (roomId: string, userId: string, username: string) => {
     room,
     activePoll,
     isLoading,
-    addSong: addSongMutation.mutate,
-    removeSong: removeSongMutation.mutate,
-    reorderQueue: reorderMutation.mutate,
+    applyQueue,
+    persistQueue,
+    applyCurrentSong,
     setCurrentSong,
     updateStatus,
+    updateHost,
+    updateSyncSettings,
     startPoll,
     vote,
-    skipToNext,
     closePoll,
     updateRoom: applyRoomUpdate,
     updatePoll: applyPollUpdate,
@@ -0,0 +1,52 @@
+/**
+ * useSyncTelemetry — Sync quality reporting + host debug feed
+ *
+ * Every member reports its drift, RTT and seek count on a slow cadence so
+ * the server can aggregate them per room. While the host's debug overlay is
+ * open, the aggregate is polled back (nothing is sent to anyone otherwise).
+ */
+import { useEffect, useState } from 'react'
+import {
+  getSocket,
+  getClockSync,
+  emitSyncReport,
+  emitRequestTelemetry,
+} from '@/services/socket'
+import type { SyncEngine } from '@/lib/syncEngine'
+import type { SyncTelemetry } from '@/types'
+
+const REPORT_MS = 5000
+const POLL_MS   = 2000
+
+export const useSyncTelemetry = (roomId: string, engine: SyncEngine, overlayOpen: boolean) => {
+  const [telemetry, setTelemetry] = useState<SyncTelemetry | null>(null)
+
+  // ── Report (everyone) ─────────────────────────────────────────────────────
+  useEffect(() => {
+    if (!roomId) return
+    const timer = window.setInterval(() => {
+      if (!getSocket().connected) return
+      const { drift, seeks } = engine.getState()
+      emitSyncReport(roomId, { drift, rtt: getClockSync().rtt, seeks })
+    }, REPORT_MS)
+    return () => window.clearInterval(timer)
+  }, [roomId, engine])
+
+  // ── Poll the aggregate (host overlay only) ────────────────────────────────
+  useEffect(() => {
+    if (!roomId || !overlayOpen) return
+    const socket = getSocket()
+    const handleTelemetry = (data: SyncTelemetry) => {
+      if (data.room_id === roomId) setTelemetry(data)
+    }
+    socket.on('sync_telemetry', handleTelemetry)
+    emitRequestTelemetry(roomId)
+    const timer = window.setInterval(() => emitRequestTelemetry(roomId), POLL_MS)
+    return () => {
+      window.clearInterval(timer)
+      socket.off('sync_telemetry', handleTelemetry)
+    }
+  }, [roomId, overlayOpen])
+
+  return telemetry
+}
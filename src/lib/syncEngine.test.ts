@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  createSyncEngine, expectedPosition, nudgeRate,
+  type PlayerAdapter, type SyncThresholds,
+} from './syncEngine'
+
+// Simulated server clock + a player whose time advances with it while playing
+const setup = (thresholds: Partial<SyncThresholds> = {}) => {
+  let clock = 1_000_000
+  let playerTime = 0
+  let playing = false
+  let rate = 1
+
+  const player: PlayerAdapter = {
+    play: vi.fn(async () => { playing = true }),
+    pause: vi.fn(() => { playing = false }),
+    seekTo: vi.fn((s: number) => { playerTime = s }),
+    getCurrentTime: () => playerTime,
+    setPlaybackRate: vi.fn((r: number) => { rate = r }),
+  }
+  const onHeartbeat = vi.fn()
+  const engine = createSyncEngine({
+    getPlayer: () => player,
+    now: () => clock,
+    onHeartbeat,
+    thresholds,
+  })
+
+  return {
+    engine,
+    player,
+    onHeartbeat,
+    now: () => clock,
+    advance: (ms: number) => {
+      clock += ms
+      if (playing) playerTime += (ms / 1000) * rate
+      vi.advanceTimersByTime(ms)
+    },
+    setPlayerTime: (s: number) => { playerTime = s },
+    rate: () => rate,
+  }
+}
+
+describe('expectedPosition', () => {
+  it('adds elapsed time only while playing', () => {
+    expect(expectedPosition({ room_id: 'r', position: 10, status: 'playing', server_time: 1000 }, 3000)).toBe(12)
+    expect(expectedPosition({ room_id: 'r', position: 10, status: 'paused', server_time: 1000 }, 3000)).toBe(10)
+  })
+
+  it('never goes backwards when the report is from the future', () => {
+    expect(expectedPosition({ room_id: 'r', position: 10, status: 'playing', server_time: 5000 }, 3000)).toBe(10)
+  })
+})
+
+describe('nudgeRate', () => {
+  it('slows down when ahead and speeds up when behind, within ±10%', () => {
+    expect(nudgeRate(0.1)).toBeCloseTo(0.95)
+    expect(nudgeRate(-0.1)).toBeCloseTo(1.05)
+    expect(nudgeRate(5)).toBeCloseTo(0.9)
+    expect(nudgeRate(-5)).toBeCloseTo(1.1)
+  })
+})
+
+describe('createSyncEngine', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('seeks to the latency-corrected position when drift exceeds the threshold', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+
+    const actions = t.engine.applyServerState({
+      room_id: 'r', position: 30, status: 'playing', server_time: t.now() - 200,
+    })
+
+    expect(actions).toEqual(['seek', 'play'])
+    expect(t.player.seekTo).toHaveBeenCalledWith(30.2)
+    expect(t.engine.getState()).toMatchObject({ status: 'playing', seeks: 1, pending: false })
+  })
+
+  it('nudges playbackRate instead of seeking for drift between the thresholds', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(30.4)
+
+    const actions = t.engine.applyServerState({
+      room_id: 'r', position: 30, status: 'playing', server_time: t.now(),
+    })
+
+    expect(actions).toEqual(['nudge', 'play'])
+    expect(t.player.seekTo).not.toHaveBeenCalled()
+    expect(t.rate()).toBeLessThan(1)
+    expect(t.engine.getState().drift).toBeCloseTo(0.4)
+  })
+
+  it('converges through nudging without any hard seek', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(0.6)   // 600ms ahead
+    t.engine.applyServerState({ room_id: 'r', position: 0, status: 'playing', server_time: t.now() })
+
+    for (let i = 1; i <= 30; i++) {
+      t.advance(500)
+      t.engine.applyServerState({ room_id: 'r', position: i * 0.5, status: 'playing', server_time: t.now() })
+    }
+
+    expect(t.player.seekTo).not.toHaveBeenCalled()
+    expect(Math.abs(t.engine.getState().drift)).toBeLessThanOrEqual(0.05)
+    expect(t.rate()).toBe(1)
+  })
+
+  it('drops the nudge back to 1x when reports stop arriving', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(10.3)
+    t.engine.applyServerState({ room_id: 'r', position: 10, status: 'playing', server_time: t.now() })
+    expect(t.rate()).not.toBe(1)
+
+    t.advance(2500)
+
+    expect(t.rate()).toBe(1)
+    expect(t.engine.getState().rate).toBe(1)
+  })
+
+  it('holds a rounded-up rate only as long as it takes to close the drift', () => {
+    const t = setup()
+    // Like YouTube: 0.95 becomes 0.75
+    t.player.setPlaybackRate = vi.fn((r: number) => (r < 1 ? 0.75 : r > 1 ? 1.25 : 1))
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(10.1)
+    t.engine.applyServerState({ room_id: 'r', position: 10, status: 'playing', server_time: t.now() })
+    expect(t.engine.getState().rate).toBe(0.75)
+
+    // 0.1s at 0.75x closes in 400ms, not the 2s a fine-grained nudge gets
+    t.advance(350)
+    expect(t.engine.getState().rate).toBe(0.75)
+    t.advance(100)
+    expect(t.engine.getState().rate).toBe(1)
+  })
+
+  it('does nothing but keep playing for drift under the nudge threshold', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(30.02)
+
+    const actions = t.engine.applyServerState({
+      room_id: 'r', position: 30, status: 'playing', server_time: t.now(),
+    })
+
+    expect(actions).toEqual(['play'])
+    expect(t.player.setPlaybackRate).not.toHaveBeenCalled()
+  })
+
+  it('stays in sync across heartbeats once aligned', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.engine.applyServerState({ room_id: 'r', position: 0, status: 'playing', server_time: t.now() })
+
+    for (let i = 1; i <= 10; i++) {
+      t.advance(500)
+      t.engine.applyServerState({ room_id: 'r', position: i * 0.5, status: 'playing', server_time: t.now() })
+    }
+
+    expect(t.player.seekTo).not.toHaveBeenCalled()
+    expect(t.engine.getState().seeks).toBe(0)
+  })
+
+  it('pauses at the reported position', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(50)
+
+    const actions = t.engine.applyServerState({
+      room_id: 'r', position: 42, status: 'paused', server_time: t.now() - 5000,
+    })
+
+    expect(actions).toEqual(['seek', 'pause'])
+    expect(t.player.seekTo).toHaveBeenCalledWith(42)
+    expect(t.engine.getState().status).toBe('paused')
+  })
+
+  it('holds a mid-session join until the player is ready, then seeks to the live position', () => {
+    const t = setup()
+    t.engine.applyServerState({ room_id: 'r', position: 60, status: 'playing', server_time: t.now() })
+
+    expect(t.engine.getState().pending).toBe(true)
+    expect(t.player.seekTo).not.toHaveBeenCalled()
+
+    t.advance(2000)   // player takes 2s to load
+    t.engine.setPlayerReady(true)
+
+    expect(t.player.seekTo).toHaveBeenCalledWith(62)
+    expect(t.player.play).toHaveBeenCalled()
+    expect(t.engine.getState().pending).toBe(false)
+  })
+
+  it('ignores reports older than the one already applied', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.engine.applyServerState({ room_id: 'r', position: 100, status: 'playing', server_time: t.now() })
+
+    const actions = t.engine.applyServerState({
+      room_id: 'r', position: 10, status: 'paused', server_time: t.now() - 1000,
+    })
+
+    expect(actions).toEqual([])
+    expect(t.engine.getState().status).toBe('playing')
+  })
+
+  it('accepts an older-timestamped report after a song reset', () => {
+    const t = setup()
+    t.engine.setPlayerReady(true)
+    t.engine.applyServerState({ room_id: 'r', position: 100, status: 'playing', server_time: t.now() })
+    t.engine.reset()
+
+    const actions = t.engine.applyServerState({
+      room_id: 'r', position: 0, status: 'playing', server_time: t.now() - 1000,
+    })
+
+    expect(actions).toContain('play')
+  })
+
+  it('uses per-room thresholds', () => {
+    const t = setup({ seekThreshold: 2 })
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(11.5)
+
+    t.engine.applyServerState({ room_id: 'r', position: 10, status: 'playing', server_time: t.now() })
+    expect(t.player.seekTo).not.toHaveBeenCalled()
+
+    t.engine.setThresholds({ seekThreshold: 0.5 })
+    t.engine.applyServerState({ room_id: 'r', position: 10, status: 'playing', server_time: t.now() })
+    expect(t.player.seekTo).toHaveBeenCalledWith(10)
+  })
+
+  it('ignores server state while host', () => {
+    const t = setup()
+    t.engine.setHost(true)
+    t.engine.setPlayerReady(true)
+
+    expect(t.engine.applyServerState({ room_id: 'r', position: 5, status: 'paused', server_time: t.now() })).toEqual([])
+    expect(t.player.pause).not.toHaveBeenCalled()
+  })
+
+  it('emits a heartbeat every 500ms while enabled', () => {
+    const t = setup()
+    t.engine.setHost(true)
+    t.engine.setPlayerReady(true)
+    t.setPlayerTime(3)
+
+    t.engine.setHeartbeat(true)
+    t.advance(1500)
+    expect(t.onHeartbeat).toHaveBeenCalledTimes(3)
+    expect(t.onHeartbeat).toHaveBeenLastCalledWith(3, 'playing')
+
+    t.engine.setHeartbeat(false)
+    t.advance(1500)
+    expect(t.onHeartbeat).toHaveBeenCalledTimes(3)
+  })
+})
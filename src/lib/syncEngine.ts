@@ -0,0 +1,215 @@
+/**
+ * syncEngine — Playback sync decisions, independent of React
+ *
+ * Listeners feed it the server's position/status stream (sync_position,
+ * room_state, DB startedAt) and it decides when to seek, play or pause the
+ * player. The host side only runs the position heartbeat.
+ *
+ * Small drift is corrected by briefly nudging playbackRate (inaudible);
+ * only drift above the seek threshold causes a hard seek.
+ *
+ * All time comes from `now()` (server clock, ms) and timers are plain
+ * setInterval/setTimeout, so tests can drive it with a simulated clock.
+ */
+import type { SyncEvent } from '@/types'
+
+// Subset of PlayerHandle the engine drives
+export interface PlayerAdapter {
+  play: () => Promise<void>
+  pause: () => void
+  seekTo: (seconds: number) => void
+  getCurrentTime: () => number
+  /** Returns the rate actually applied when the player rounds it (e.g. YouTube's 0.75 / 1.25) */
+  setPlaybackRate: (rate: number) => number | void
+}
+
+export type SyncAction = 'seek' | 'nudge' | 'play' | 'pause'
+
+export interface SyncThresholds {
+  nudgeThreshold: number    // seconds of drift before playbackRate is nudged
+  seekThreshold:  number    // seconds of drift before a hard seek
+}
+
+export interface SyncState {
+  status:   'playing' | 'paused' | 'idle'
+  position: number    // expected position (s) at the last reconcile
+  drift:    number    // local − expected (s) at the last reconcile
+  seeks:    number    // hard seeks since creation
+  rate:     number    // current playbackRate (1 unless nudging)
+  pending:  boolean   // server state waiting for the player to become ready
+}
+
+export interface SyncEngineOptions {
+  getPlayer:      () => PlayerAdapter | null
+  now:            () => number
+  thresholds?:    Partial<SyncThresholds>
+  heartbeatMs?:   number
+  onHeartbeat?:   (position: number, status: 'playing') => void
+  onStateChange?: (state: SyncState) => void
+}
+
+export const DEFAULT_THRESHOLDS: SyncThresholds = {
+  nudgeThreshold: 0.05,
+  seekThreshold:  1.0,
+}
+export const DEFAULT_HEARTBEAT_MS = 500
+// A seek-bar drag fires per pixel; seeks sent at this pace plus the heartbeat
+// stay within the server's sync_position refill (4/s)
+export const SEEK_EMIT_MS = 500
+
+// Nudged rate stays within 1 ± MAX_RATE_NUDGE and aims to close the gap
+// in ~CORRECTION_SECONDS; it falls back to 1 if no fresh report renews it.
+// A player that rounds the rate up (YouTube) holds it only as long as the
+// rate it actually applied needs to close the gap, so it can't overshoot.
+const MAX_RATE_NUDGE     = 0.1
+const CORRECTION_SECONDS = 2
+const NUDGE_TIMEOUT_MS   = 2000
+
+/** playbackRate that closes `drift` (local − expected, s) without overshooting the cap */
+export const nudgeRate = (drift: number) =>
+  1 + Math.max(-MAX_RATE_NUDGE, Math.min(MAX_RATE_NUDGE, -drift / CORRECTION_SECONDS))
+
+/** Where the server says playback is right now, given the time it was reported */
+export const expectedPosition = (event: SyncEvent, nowMs: number) =>
+  event.status === 'playing'
+    ? event.position + Math.max(0, (nowMs - event.server_time) / 1000)
+    : event.position
+
+export const createSyncEngine = (opts: SyncEngineOptions) => {
+  const heartbeatMs = opts.heartbeatMs ?? DEFAULT_HEARTBEAT_MS
+
+  const withDefaults = (t: Partial<SyncThresholds> = {}): SyncThresholds => ({
+    nudgeThreshold: t.nudgeThreshold ?? DEFAULT_THRESHOLDS.nudgeThreshold,
+    seekThreshold:  t.seekThreshold ?? DEFAULT_THRESHOLDS.seekThreshold,
+  })
+  let thresholds = withDefaults(opts.thresholds)
+
+  let target: SyncEvent | null = null
+  let ready     = false
+  let isHost    = false
+  let heartbeat: ReturnType<typeof setInterval> | null = null
+  let nudgeTimer: ReturnType<typeof setTimeout> | null = null
+  let state: SyncState = { status: 'idle', position: 0, drift: 0, seeks: 0, rate: 1, pending: false }
+
+  const setState = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch }
+    opts.onStateChange?.(state)
+  }
+
+  const setRate = (player: PlayerAdapter, rate: number, drift: number) => {
+    if (nudgeTimer) clearTimeout(nudgeTimer)
+    nudgeTimer = null
+    const applied = rate !== state.rate ? (player.setPlaybackRate(rate) ?? rate) : state.rate
+    if (applied !== 1) {
+      const closesIn = (Math.abs(drift) / Math.abs(applied - 1)) * 1000
+      nudgeTimer = setTimeout(() => {
+        opts.getPlayer()?.setPlaybackRate(1)
+        setState({ rate: 1 })
+      }, Math.min(NUDGE_TIMEOUT_MS, closesIn))
+    }
+    return applied
+  }
+
+  const reconcile = (): SyncAction[] => {
+    if (!target || isHost) return []
+    const player = opts.getPlayer()
+    if (!player || !ready) {
+      setState({ pending: true })
+      return []
+    }
+
+    const expected = expectedPosition(target, opts.now())
+    const drift    = player.getCurrentTime() - expected
+    const playing  = target.status === 'playing'
+    const actions: SyncAction[] = []
+    let rate = 1
+
+    // Paused: nothing is audible, so any noticeable drift is fixed with a seek
+    const seekAbove = playing ? thresholds.seekThreshold : thresholds.nudgeThreshold
+    if (Math.abs(drift) > seekAbove) {
+      player.seekTo(expected)
+      actions.push('seek')
+    } else if (playing && Math.abs(drift) > thresholds.nudgeThreshold) {
+      rate = nudgeRate(drift)
+      actions.push('nudge')
+    }
+    rate = setRate(player, rate, drift)
+
+    if (playing) {
+      player.play().catch(() => {})
+      actions.push('play')
+    } else {
+      player.pause()
+      actions.push('pause')
+    }
+
+    setState({
+      status:   target.status,
+      position: expected,
+      drift,
+      seeks:    state.seeks + (actions[0] === 'seek' ? 1 : 0),
+      rate,
+      pending:  false,
+    })
+    return actions
+  }
+
+  /** Latest server state for a listener. Older reports than the applied one are ignored. */
+  const applyServerState = (event: SyncEvent): SyncAction[] => {
+    if (isHost) return []
+    if (target && event.server_time < target.server_time) return []
+    target = event
+    return reconcile()
+  }
+
+  /** Player mounted/loaded (true) or torn down for a new song (false) */
+  const setPlayerReady = (isReady: boolean): SyncAction[] => {
+    ready = isReady
+    return isReady ? reconcile() : []
+  }
+
+  /** Song changed — forget the previous song's position */
+  const reset = () => {
+    target = null
+    if (nudgeTimer) clearTimeout(nudgeTimer)
+    nudgeTimer = null
+    setState({ status: 'idle', position: 0, drift: 0, rate: 1, pending: false })
+  }
+
+  /** Per-room thresholds (host-configurable) */
+  const setThresholds = (next: Partial<SyncThresholds>) => {
+    thresholds = withDefaults(next)
+  }
+
+  const setHost = (host: boolean) => {
+    isHost = host
+    if (host) target = null
+  }
+
+  const setHeartbeat = (on: boolean) => {
+    if (heartbeat) clearInterval(heartbeat)
+    heartbeat = null
+    if (!on) return
+    heartbeat = setInterval(() => {
+      opts.onHeartbeat?.(opts.getPlayer()?.getCurrentTime() || 0, 'playing')
+    }, heartbeatMs)
+  }
+
+  const destroy = () => {
+    setHeartbeat(false)
+    if (nudgeTimer) clearTimeout(nudgeTimer)
+  }
+
+  return {
+    applyServerState,
+    setPlayerReady,
+    reset,
+    setThresholds,
+    setHost,
+    setHeartbeat,
+    getState: () => state,
+    destroy,
+  }
+}
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>
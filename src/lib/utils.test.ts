@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { throttle } from './utils'
+import { DEFAULT_HEARTBEAT_MS, SEEK_EMIT_MS } from './syncEngine'
+import { createRateLimiter, DEFAULT_RATE_LIMITS } from '../../server/rateLimit'
+
+describe('throttle', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('runs the first call at once and the last one after the wait', () => {
+    const fn = vi.fn()
+    const t = throttle(fn, 500)
+    t(1); t(2); t(3)
+    expect(fn.mock.calls).toEqual([[1]])
+    vi.advanceTimersByTime(500)
+    expect(fn.mock.calls).toEqual([[1], [3]])
+    vi.advanceTimersByTime(1000)
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops a waiting call on cancel', () => {
+    const fn = vi.fn()
+    const t = throttle(fn, 500)
+    t(1); t(2)
+    t.cancel()
+    vi.advanceTimersByTime(1000)
+    expect(fn.mock.calls).toEqual([[1]])
+  })
+
+  it("keeps a host's seek-bar drag under the server's sync_position limit", () => {
+    // Every sync_position the server drops is a strike towards a disconnect
+    const limiter = createRateLimiter(DEFAULT_RATE_LIMITS)
+    let dropped = 0
+    const send = () => { if (!limiter.take('sync_position', Date.now())) dropped++ }
+
+    // Ten seconds of 60 Hz onChange through Room.tsx's throttle, alongside the heartbeat
+    const seek = throttle(send, SEEK_EMIT_MS)
+    const heartbeat = setInterval(send, DEFAULT_HEARTBEAT_MS)
+    for (let i = 0; i < 600; i++) {
+      seek()
+      vi.advanceTimersByTime(1000 / 60)
+    }
+    clearInterval(heartbeat)
+
+    expect(dropped).toBe(0)
+  })
+})
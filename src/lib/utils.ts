@@ -8,3 +8,35 @@ export function cn(...inputs: ClassValue[]) {
 export const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
 
 export const generateId = () => Math.random().toString(36).slice(2) + Date.now().toString(36)
+
+/**
+ * Calls `fn` at most once per `ms`: the first call goes straight through, and
+ * the last one made while waiting runs when the wait ends, so the final value
+ * is never lost.
+ */
+export function throttle<A extends unknown[]>(fn: (...args: A) => void, ms: number) {
+  let last = -Infinity
+  let pending: A | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const run = (args: A) => {
+    last = Date.now()
+    fn(...args)
+  }
+  const throttled = (...args: A) => {
+    const wait = last + ms - Date.now()
+    if (wait <= 0 && !timer) return run(args)
+    pending = args
+    timer ??= setTimeout(() => {
+      timer = null
+      if (pending) run(pending)
+      pending = null
+    }, Math.max(wait, 0))
+  }
+  throttled.cancel = () => {
+    if (timer) clearTimeout(timer)
+    timer = null
+    pending = null
+  }
+  return throttled
+}
@@ -4,13 +4,19 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Plus, Music2, LogOut, ArrowRight, RefreshCw,
-  Clock, X, Loader2, Radio, Crown, Disc3,
+  Clock, X, Loader2, Radio, Crown, Disc3, Lock, Link2,
 } from 'lucide-react'
 import { useAuth } from '@/hooks/useAuth'
-import { listRooms, createRoom } from '@/services/supabaseClient'
-import type { Room } from '@/types'
+import { listRooms, createRoom, setRoomPassword } from '@/services/supabaseClient'
+import type { Room, RoomVisibility } from '@/types'
 import { cn } from '@/lib/utils'
 
+const VISIBILITY_OPTIONS: { value: RoomVisibility; label: string; hint: string }[] = [
+  { value: 'public',   label: 'Public',   hint: 'Listed here for everyone' },
+  { value: 'unlisted', label: 'Unlisted', hint: 'Anyone with the link' },
+  { value: 'private',  label: 'Private',  hint: 'Password or invite link' },
+]
+
 export const Dashboard = () => {
   const navigate = useNavigate()
   const { user, username, logout } = useAuth()
@@ -18,34 +24,53 @@ export const Dashboard = () => {
 
   const [showCreate, setShowCreate] = useState(false)
   const [roomName, setRoomName] = useState('')
+  const [visibility, setVisibility] = useState<RoomVisibility>('public')
+  const [password, setPassword] = useState('')
   const [joinId, setJoinId] = useState('')
+  // Created, but setting its password failed — retries only set the password
+  const [unsecuredRoom, setUnsecuredRoom] = useState<Room | null>(null)
 
   const { data: rooms = [], isLoading, refetch, isFetching } = useQuery({
-    queryKey: ['rooms'],
-    queryFn: listRooms,
+    queryKey: ['rooms', user?.id],
+    queryFn: () => listRooms(user?.id),
     refetchInterval: 20_000,
   })
 
   const createMutation = useMutation({
     mutationFn: async () => {
       if (!user || !roomName.trim()) throw new Error('Room name required')
-      return createRoom(roomName.trim(), user.id)
+      const room = unsecuredRoom ?? await createRoom(roomName.trim(), user.id, visibility)
+      // Without a password the room is invite-only
+      if (room && visibility === 'private' && password && !await setRoomPassword(room.id, password)) {
+        setUnsecuredRoom(room)
+        throw new Error('Room created, but its password could not be set. Try again, or open it invite-only.')
+      }
+      return room
     },
     onSuccess: (room) => {
-      if (room) {
-        qc.invalidateQueries({ queryKey: ['rooms'] })
-        navigate(`/room/${room.id}`)
-      }
+      if (room) openCreated(room)
     },
   })
 
+  const openCreated = (room: Room) => {
+    setUnsecuredRoom(null)
+    qc.invalidateQueries({ queryKey: ['rooms'] })
+    navigate(`/room/${room.id}`)
+  }
+
+  const closeCreate = () => {
+    setShowCreate(false)
+    setUnsecuredRoom(null)
+    createMutation.reset()
+  }
+
   const handleJoin = (e: React.FormEvent) => {
     e.preventDefault()
     const id = joinId.trim()
     if (!id) return
-    // Handle full URL or just ID
-    const match = id.match(/room\/([a-f0-9-]+)/)
-    navigate(`/room/${match ? match[1] : id}`)
+    // Handle full URL (room or invite link) or just ID; JoinPage asks for a password if needed
+    const match = id.match(/(?:room|join)\/([a-f0-9-]+)(\?invite=[\w.]+)?/)
+    navigate(match ? `/join/${match[1]}${match[2] ?? ''}` : `/join/${id}`)
   }
 
   const timeAgo = (date: string) => {
@@ -199,6 +224,8 @@ export const Dashboard = () => {
                   <div className="flex items-center gap-1.5 mb-0.5">
                     <p className="font-medium text-sm text-s-text truncate">{room.name}</p>
                     {room.host_id === user?.id && <Crown size={10} className="text-amber-400 flex-shrink-0" />}
+                    {room.visibility === 'private' && <Lock size={10} className="text-s-muted flex-shrink-0" />}
+                    {room.visibility === 'unlisted' && <Link2 size={10} className="text-s-muted flex-shrink-0" />}
                   </div>
                   <div className="flex items-center gap-2">
                     <Clock size={10} className="text-s-muted" />
@@ -228,7 +255,7 @@ export const Dashboard = () => {
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               className="absolute inset-0 bg-black/70 backdrop-blur-md"
-              onClick={() => setShowCreate(false)}
+              onClick={closeCreate}
             />
             <motion.div
               initial={{ opacity: 0, scale: 0.95, y: 12 }}
@@ -241,7 +268,7 @@ export const Dashboard = () => {
                   <h3 className="font-display font-semibold text-s-text">New Room</h3>
                   <p className="text-xs text-s-muted mt-0.5">Give it a catchy name</p>
                 </div>
-                <button onClick={() => setShowCreate(false)} className="text-s-muted hover:text-s-text transition-colors">
+                <button onClick={closeCreate} className="text-s-muted hover:text-s-text transition-colors">
                   <X size={18} />
                 </button>
               </div>
@@ -257,8 +284,42 @@ export const Dashboard = () => {
                   required
                   maxLength={50}
                   autoFocus
+                  disabled={!!unsecuredRoom}
                   className="w-full px-4 py-3 bg-s-deep border border-s-border rounded-xl text-sm text-s-text placeholder-s-muted/50 focus:outline-none focus:border-s-violet/60 transition-colors"
                 />
+                <div className="grid grid-cols-3 gap-1.5">
+                  {VISIBILITY_OPTIONS.map(opt => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() => setVisibility(opt.value)}
+                      disabled={!!unsecuredRoom}
+                      title={opt.hint}
+                      className={cn(
+                        'py-2 rounded-lg border text-xs transition-all',
+                        visibility === opt.value
+                          ? 'bg-s-violet/15 border-s-violet/50 text-s-text'
+                          : 'border-s-border text-s-muted hover:text-s-text',
+                      )}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-s-muted -mt-2">
+                  {VISIBILITY_OPTIONS.find(o => o.value === visibility)?.hint}
+                </p>
+                {visibility === 'private' && (
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    placeholder="Room password (optional)"
+                    maxLength={72}
+                    autoComplete="new-password"
+                    className="w-full px-4 py-3 bg-s-deep border border-s-border rounded-xl text-sm text-s-text placeholder-s-muted/50 focus:outline-none focus:border-s-violet/60 transition-colors"
+                  />
+                )}
                 {createMutation.error && (
                   <p className="text-xs text-red-400">{(createMutation.error as Error).message}</p>
                 )}
@@ -268,8 +329,18 @@ export const Dashboard = () => {
                   className="w-full py-3 bg-s-violet hover:bg-s-violet/90 text-white font-medium text-sm rounded-xl transition-all disabled:opacity-50 flex items-center justify-center gap-2 active:scale-98"
                 >
                   {createMutation.isPending ? <Loader2 size={15} className="animate-spin" /> : <Radio size={15} />}
-                  Create Room
+                  {unsecuredRoom ? 'Set Password' : 'Create Room'}
                 </button>
+                {unsecuredRoom && (
+                  <button
+                    type="button"
+                    onClick={() => openCreated(unsecuredRoom)}
+                    disabled={createMutation.isPending}
+                    className="w-full py-2 text-xs text-s-muted hover:text-s-text transition-colors disabled:opacity-50"
+                  >
+                    Open invite-only
+                  </button>
+                )}
               </form>
             </motion.div>
           </div>
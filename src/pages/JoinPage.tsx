@@ -1,36 +1,64 @@
 /**
  * JoinPage — Handles shareable /join/:id links
  *
- * If user is logged in → redirect directly to /room/:id
- * If not logged in → show a join screen, anonymous login, then redirect
+ * If user is logged in → check access (redeeming ?invite= if present), then /room/:id
+ * If not logged in → show a join screen, anonymous login, then the same
+ * If the room is private and the invite is missing or expired → ask for the password
  */
 import { useEffect, useState } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { Music, Users, ArrowRight, Loader2 } from 'lucide-react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import { Music, Users, ArrowRight, Loader2, Lock } from 'lucide-react'
 import { useAuth } from '@/hooks/useAuth'
-import { getRoom } from '@/services/supabaseClient'
+import { getRoom, enterRoom } from '@/services/supabaseClient'
 import type { Room } from '@/types'
 
 export const JoinPage = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const invite = searchParams.get('invite') ?? undefined
   const { user, loading, loginAnon } = useAuth()
   const [room, setRoom]           = useState<Room | null>(null)
   const [joining, setJoining]     = useState(false)
   const [error, setError]         = useState('')
+  // Logged in but not let in — the room is private
+  const [locked, setLocked]       = useState(false)
+  const [password, setPassword]   = useState('')
 
-  // Load room info for display
+  // Load room info for display (hidden by RLS until the user has access)
   useEffect(() => {
-    if (!id) return
+    if (!id || locked) return
     getRoom(id).then(r => setRoom(r))
-  }, [id])
+  }, [id, user, locked])
 
-  // If user is already logged in, go straight to room
+  // Once logged in, go to the room if we're allowed in
   useEffect(() => {
-    if (!loading && user && id) {
+    if (loading || !user || !id) return
+    let cancelled = false
+    enterRoom(id, { invite }).then(ok => {
+      if (cancelled) return
+      if (ok) navigate(`/room/${id}`, { replace: true })
+      else {
+        setLocked(true)
+        setJoining(false)
+        if (invite) setError('This invite link has expired or is invalid.')
+      }
+    })
+    return () => { cancelled = true }
+  }, [user, loading, id, invite, navigate])
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!id || !password) return
+    setJoining(true)
+    setError('')
+    if (await enterRoom(id, { password })) {
       navigate(`/room/${id}`, { replace: true })
+    } else {
+      setError('Wrong password.')
+      setJoining(false)
     }
-  }, [user, loading, id, navigate])
+  }
 
   const handleJoin = async () => {
     if (!id) return
@@ -38,14 +66,14 @@ export const JoinPage = () => {
     setError('')
     try {
       await loginAnon()
-      // Auth state change will trigger the effect above to redirect
+      // Auth state change will trigger the access check above
     } catch (e) {
       setError('Failed to join. Please try again.')
       setJoining(false)
     }
   }
 
-  if (loading || (user && id)) {
+  if (loading || (user && id && !locked)) {
     return (
       <div className="min-h-screen bg-[#070710] flex items-center justify-center">
         <Loader2 className="w-8 h-8 text-violet-400 animate-spin" />
@@ -80,7 +108,7 @@ export const JoinPage = () => {
             <div>
               <p className="text-xs text-white/40 uppercase tracking-wider mb-0.5">You're invited to</p>
               <h1 className="text-lg font-semibold text-white font-[Syne]">
-                {room ? room.name : 'a music room'}
+                {room ? room.name : locked ? 'a private room' : 'a music room'}
               </h1>
             </div>
           </div>
@@ -97,21 +125,50 @@ export const JoinPage = () => {
             </div>
           )}
 
-          <button
-            onClick={handleJoin}
-            disabled={joining}
-            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-violet-600 hover:bg-violet-500 disabled:opacity-60 rounded-xl text-white text-sm font-semibold transition-all duration-200 shadow-lg shadow-violet-900/40"
-          >
-            {joining
-              ? <><Loader2 size={16} className="animate-spin" /> Joining...</>
-              : <><ArrowRight size={16} /> Join as Guest</>}
-          </button>
+          {locked ? (
+            <form onSubmit={handlePassword} className="space-y-3">
+              <div className="flex items-center gap-2 text-xs text-white/50">
+                <Lock size={12} />
+                This room is private — enter its password
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                placeholder="Room password"
+                autoFocus
+                autoComplete="current-password"
+                className="w-full px-4 py-3 bg-white/[0.03] border border-white/10 rounded-xl text-sm text-white placeholder-white/30 focus:outline-none focus:border-violet-500/60 transition-colors"
+              />
+              <button
+                type="submit"
+                disabled={joining || !password}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-violet-600 hover:bg-violet-500 disabled:opacity-60 rounded-xl text-white text-sm font-semibold transition-all duration-200 shadow-lg shadow-violet-900/40"
+              >
+                {joining
+                  ? <><Loader2 size={16} className="animate-spin" /> Checking...</>
+                  : <><ArrowRight size={16} /> Enter Room</>}
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={handleJoin}
+              disabled={joining}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-violet-600 hover:bg-violet-500 disabled:opacity-60 rounded-xl text-white text-sm font-semibold transition-all duration-200 shadow-lg shadow-violet-900/40"
+            >
+              {joining
+                ? <><Loader2 size={16} className="animate-spin" /> Joining...</>
+                : <><ArrowRight size={16} /> Join as Guest</>}
+            </button>
+          )}
 
           {error && <p className="text-xs text-red-400 text-center mt-3">{error}</p>}
 
-          <p className="text-xs text-white/30 text-center mt-4">
-            No account needed — listen in sync instantly
-          </p>
+          {!locked && (
+            <p className="text-xs text-white/30 text-center mt-4">
+              No account needed — listen in sync instantly
+            </p>
+          )}
         </div>
 
         <p className="text-center mt-6">
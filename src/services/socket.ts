@@ -3,16 +3,29 @@
  *
  * Key design: socket is created ONCE at module load (autoConnect: true).
  * joinRoomChannel works whether socket is connected or not.
+ * The Supabase access token rides in the handshake (`auth.token`); the server
+ * derives the user id from it.
+ *
+ * Clock sync: a burst of `time_sync` pings on every connect (then one every
+ * 30s) estimates offset = serverTime − localTime. Use serverNow() instead of
+ * Date.now() anywhere a timestamp is compared with the server's.
  */
 import { io, Socket } from 'socket.io-client'
-import type { SyncEvent, Song } from '@/types'
+import type { ClientToServerEvents, ServerToClientEvents, Versioned } from '@shared/events'
+import type { SyncEvent, Song, SocketErrorEvent, MemberRole, MemberHealth, ReactionEmoji } from '@/types'
+
+export type SyncySocket = Socket<ServerToClientEvents, ClientToServerEvents>
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001'
 
 // Singleton — created once, lives forever
-let _socket: Socket | null = null
+let _socket: SyncySocket | null = null
 
-export const getSocket = (): Socket => {
+// Read on every (re)connect via the auth callback below
+let _accessToken: string | null = null
+let _authUserId:  string | null = null
+
+export const getSocket = (): SyncySocket => {
   if (_socket) return _socket
 
   _socket = io(SOCKET_URL, {
@@ -23,21 +36,109 @@ export const getSocket = (): Socket => {
     reconnectionDelayMax: 5000,
     timeout: 15000,
     autoConnect: true,
+    auth: (cb) => cb({ token: _accessToken }),
   })
 
   _socket.on('connect',       () => console.log('[Socket] ✅ Connected:', _socket!.id))
+  _socket.on('connect',       startClockSync)
+  _socket.on('time_sync',     handleTimeSync)
   _socket.on('disconnect',    (r) => console.warn('[Socket] ⚠️ Disconnected:', r))
   _socket.on('connect_error', (e) => console.warn('[Socket] ❌ Error:', e.message))
+  _socket.on('error',         (e: SocketErrorEvent) => console.warn(`[Socket] ⛔ ${e.event} rejected:`, e.code))
+  // A refresh the server wouldn't take — hand it the token with a new handshake instead
+  _socket.on('error',         (e: SocketErrorEvent) => { if (e.event === 'refresh_auth') reconnect() })
 
   return _socket
 }
 
+/**
+ * Called by useAuth whenever the Supabase session changes. A refreshed token
+ * for the same user goes to the server with refresh_auth — the server stops
+ * taking events once the handshake token expires. A different user (or first
+ * sign-in) forces a fresh handshake right away.
+ */
+export const setSocketAuth = (token: string | null, userId: string | null) => {
+  const userChanged = userId !== _authUserId
+  _accessToken = token
+  _authUserId  = userId
+
+  const sock = getSocket()
+  if (!userChanged) {
+    if (token && sock.connected) sock.emit('refresh_auth', { token })
+  } else if (sock.connected) {
+    reconnect()
+  }
+}
+
+const reconnect = () => {
+  _socket?.disconnect()
+  _socket?.connect()
+}
+
+// ── Clock sync (NTP-style) ───────────────────────────────────────────────────
+
+interface ClockSample {
+  offset: number   // ms, server − local
+  rtt:    number   // ms
+}
+
+const CLOCK_BURST_SIZE   = 8
+const CLOCK_BURST_GAP_MS = 150
+const CLOCK_RESYNC_MS    = 30_000
+const CLOCK_MAX_SAMPLES  = 16
+
+let _clockSamples: ClockSample[] = []
+let _clockOffset = 0
+let _clockRtt    = 0
+let _clockTimer  = 0
+
+const sendTimeSync = () => {
+  if (_socket?.connected) _socket.emit('time_sync', { client_time: Date.now() })
+}
+
+// Fresh samples per connection — after a reconnect we may be on another server
+function startClockSync() {
+  _clockSamples = []
+  for (let i = 0; i < CLOCK_BURST_SIZE; i++) {
+    window.setTimeout(sendTimeSync, i * CLOCK_BURST_GAP_MS)
+  }
+  window.clearInterval(_clockTimer)
+  _clockTimer = window.setInterval(sendTimeSync, CLOCK_RESYNC_MS)
+}
+
+function handleTimeSync({ client_time, server_time }: { client_time: number; server_time: number }) {
+  const received = Date.now()
+  const rtt = received - client_time
+  if (rtt < 0) return
+
+  // Assume symmetric paths: the server stamped its time halfway through the RTT
+  const offset = server_time - (client_time + received) / 2
+  _clockSamples = [..._clockSamples, { offset, rtt }].slice(-CLOCK_MAX_SAMPLES)
+
+  // Low-RTT samples carry the least asymmetry error: take the median offset of the fastest half
+  const fastest = [..._clockSamples]
+    .sort((a, b) => a.rtt - b.rtt)
+    .slice(0, Math.ceil(_clockSamples.length / 2))
+  const offsets = fastest.map(s => s.offset).sort((a, b) => a - b)
+  _clockOffset = offsets[Math.floor(offsets.length / 2)]
+  _clockRtt    = fastest[Math.floor(fastest.length / 2)].rtt
+}
+
+/** Current time on the server's clock (ms since epoch) */
+export const serverNow = () => Date.now() + _clockOffset
+
+export const getClockSync = () => ({
+  offset:  _clockOffset,
+  rtt:     _clockRtt,
+  samples: _clockSamples.length,
+})
+
 // Initialize immediately so connection starts before any component mounts
 getSocket()
 
-export const joinRoomChannel = (roomId: string, userId: string, username: string) => {
+export const joinRoomChannel = (roomId: string, username: string) => {
   const sock = getSocket()
-  const payload = { room_id: roomId, user_id: userId, username }
+  const payload = { room_id: roomId, username }
   if (sock.connected) {
     sock.emit('join_room', payload)
   } else {
@@ -46,23 +147,55 @@ export const joinRoomChannel = (roomId: string, userId: string, username: string
   }
 }
 
-export const leaveRoomChannel = (roomId: string, userId: string) => {
+export const leaveRoomChannel = (roomId: string) => {
   const sock = getSocket()
-  if (sock.connected) sock.emit('leave_room', { room_id: roomId, user_id: userId })
+  if (sock.connected) sock.emit('leave_room', { room_id: roomId })
 }
 
-export const emitSync       = (e: SyncEvent) => getSocket().emit('sync_position', e)
-export const emitPlay       = (roomId: string, pos: number) =>
-  getSocket().emit('play', { room_id: roomId, position: pos, server_time: Date.now() })
-export const emitPause      = (roomId: string, pos: number) =>
-  getSocket().emit('pause', { room_id: roomId, position: pos, server_time: Date.now() })
-export const emitNextSong   = (roomId: string) =>
-  getSocket().emit('next_song', { room_id: roomId })
-export const emitSongChange = (roomId: string, song: Song | null) =>
-  getSocket().emit('song_change', { room_id: roomId, song })
-export const emitAddSong    = (roomId: string, song: Song) =>
-  getSocket().emit('add_song', { room_id: roomId, song })
-export const emitVote       = (pollId: string, userId: string, songId: string) =>
-  getSocket().emit('vote', { poll_id: pollId, user_id: userId, song_id: songId })
+export const emitSync       = (e: Versioned<SyncEvent>) => getSocket().emit('sync_position', e)
+export const emitPlay       = (roomId: string, pos: number, version: number) =>
+  getSocket().emit('play', { room_id: roomId, position: pos, server_time: serverNow(), version })
+export const emitPause      = (roomId: string, pos: number, version: number) =>
+  getSocket().emit('pause', { room_id: roomId, position: pos, server_time: serverNow(), version })
+export const emitNextSong   = (roomId: string, songId?: string) =>
+  getSocket().emit('next_song', { room_id: roomId, song_id: songId })
+export const emitSongChange = (roomId: string, song: Song | null, version: number) =>
+  getSocket().emit('song_change', { room_id: roomId, song, version })
+export const emitAddSong    = (roomId: string, song: Song, index?: number) =>
+  getSocket().emit('add_song', { room_id: roomId, song, index })
+export const emitRemoveSong = (roomId: string, songId: string) =>
+  getSocket().emit('remove_song', { room_id: roomId, song_id: songId })
+export const emitMoveSong   = (roomId: string, songId: string, toIndex: number) =>
+  getSocket().emit('move_song', { room_id: roomId, song_id: songId, to_index: toIndex })
+export const emitSeedQueue  = (roomId: string, queue: Song[]) =>
+  getSocket().emit('seed_queue', { room_id: roomId, queue })
+export const emitVoteSkip   = (roomId: string, songId: string) =>
+  getSocket().emit('vote_skip', { room_id: roomId, song_id: songId })
+export const emitChatMessage = (roomId: string, text: string) =>
+  getSocket().emit('chat_message', { room_id: roomId, text })
+export const emitReaction   = (roomId: string, emoji: ReactionEmoji) =>
+  getSocket().emit('reaction', { room_id: roomId, emoji })
+export const emitMemberStatus = (roomId: string, status: MemberHealth) =>
+  getSocket().emit('member_status', { room_id: roomId, status })
+export const emitSyncReport = (roomId: string, report: { drift: number; rtt: number; seeks: number }) =>
+  getSocket().emit('sync_report', { room_id: roomId, ...report })
+export const emitRequestTelemetry = (roomId: string) =>
+  getSocket().emit('request_telemetry', { room_id: roomId })
+export const emitVote       = (roomId: string, pollId: string, songId: string) =>
+  getSocket().emit('vote', { room_id: roomId, poll_id: pollId, song_id: songId })
 export const emitRequestState = (roomId: string) =>
   getSocket().emit('request_state', { room_id: roomId })
+export const emitTransferHost = (roomId: string, userId: string) =>
+  getSocket().emit('transfer_host', { room_id: roomId, user_id: userId })
+export const emitGrantRole  = (roomId: string, userId: string, role: MemberRole) =>
+  getSocket().emit('grant_role', { room_id: roomId, user_id: userId, role })
+export const emitRevokeRole = (roomId: string, userId: string, role: MemberRole) =>
+  getSocket().emit('revoke_role', { room_id: roomId, user_id: userId, role })
+export const emitKickMember = (roomId: string, userId: string) =>
+  getSocket().emit('kick_member', { room_id: roomId, user_id: userId })
+export const emitBanMember  = (roomId: string, userId: string, durationS?: number) =>
+  getSocket().emit('ban_member', { room_id: roomId, user_id: userId, duration_s: durationS })
+export const emitMuteMember = (roomId: string, userId: string) =>
+  getSocket().emit('mute_member', { room_id: roomId, user_id: userId })
+export const emitUnmuteMember = (roomId: string, userId: string) =>
+  getSocket().emit('unmute_member', { room_id: roomId, user_id: userId })
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
-import type { Room, Poll, RoomMember } from '@/types'
+import type { Room, RoomVisibility, Poll, RoomMember } from '@/types'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string
@@ -36,12 +36,17 @@ export const signOut = () => supabase.auth.signOut()
 export const getSession = () => supabase.auth.getSession()
 
 // Room helpers
-export const createRoom = async (name: string, hostId: string): Promise<Room | null> => {
+export const createRoom = async (
+  name: string,
+  hostId: string,
+  visibility: RoomVisibility = 'public',
+): Promise<Room | null> => {
   const { data, error } = await supabase
     .from('rooms')
     .insert({
       name,
       host_id: hostId,
+      visibility,
       current_song: null,
       queue: [],
       status: 'idle',
@@ -62,10 +67,12 @@ export const getRoom = async (id: string): Promise<Room | null> => {
   return data as Room
 }
 
-export const listRooms = async (): Promise<Room[]> => {
+// Public rooms, plus the caller's own whatever their visibility
+export const listRooms = async (userId?: string): Promise<Room[]> => {
   const { data, error } = await supabase
     .from('rooms')
     .select('*')
+    .or(userId ? `visibility.eq.public,host_id.eq.${userId}` : 'visibility.eq.public')
     .order('created_at', { ascending: false })
     .limit(20)
   if (error) { console.error('listRooms:', error); return [] }
@@ -77,21 +84,41 @@ export const updateRoom = async (id: string, updates: Partial<Room>) => {
   if (error) console.error('updateRoom:', error)
 }
 
-// Queue helpers
-export const addToQueue = async (roomId: string, song: import('@/types').Song, currentQueue: import('@/types').Song[]) => {
-  const newQueue = [...currentQueue, song]
-  await updateRoom(roomId, { queue: newQueue })
-  return newQueue
+// Private rooms — see supabase/migrations/005_room_visibility.sql
+
+// Host only; '' removes the password
+export const setRoomPassword = async (roomId: string, password: string): Promise<boolean> => {
+  const { error } = await supabase.rpc('set_room_password', { p_room_id: roomId, p_password: password })
+  if (error) { console.error('setRoomPassword:', error); return false }
+  return true
+}
+
+// Host only; the token goes in the join link as ?invite=
+export const createInvite = async (roomId: string, ttlSeconds = 86_400): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('create_room_invite', { p_room_id: roomId, p_ttl_seconds: ttlSeconds })
+  if (error) { console.error('createInvite:', error); return null }
+  return data as string
 }
 
-export const removeFromQueue = async (roomId: string, songId: string, currentQueue: import('@/types').Song[]) => {
-  const newQueue = currentQueue.filter(s => s.id !== songId)
-  await updateRoom(roomId, { queue: newQueue })
-  return newQueue
+// true if the current user may join (public room, host, or already let in);
+// a matching password or invite lets them in for good
+export const enterRoom = async (
+  roomId: string,
+  { password, invite }: { password?: string; invite?: string } = {},
+): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('join_private_room', {
+    p_room_id: roomId,
+    p_password: password ?? null,
+    p_invite: invite ?? null,
+  })
+  // Don't lock anyone out over a failed call — the socket server and RLS still check
+  if (error) { console.error('enterRoom:', error); return true }
+  return data === true
 }
 
-export const reorderQueue = async (roomId: string, newQueue: import('@/types').Song[]) => {
-  await updateRoom(roomId, { queue: newQueue })
+// Queue mirror — the socket server owns the queue, the host persists it here
+export const saveQueue = async (roomId: string, queue: import('@/types').Song[]) => {
+  await updateRoom(roomId, { queue })
 }
 
 // Poll helpers
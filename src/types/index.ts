@@ -1,28 +1,34 @@
-export type MusicSource = 'jamendo' | 'youtube' | 'jiosaavn'
-
-export interface Song {
-  id: string
-  title: string
-  artist: string
-  url: string           // Audio URL (MP3) or YouTube video ID
-  coverUrl?: string
-  duration?: number     // seconds
-  source: MusicSource
-  addedBy?: string
-}
+// Socket wire types live in the shared event contract (also used by the server)
+import type { MusicSource, Song } from '@shared/events'
+export type {
+  MusicSource, Song, RoomStatus, MemberRole, MemberHealth, RoomMember, SyncEvent,
+  ChatMessage, ReactionEmoji, Reaction, VoteEvent, SkipVoteState, SyncSample, SyncTelemetry,
+  SocketRejectCode, SocketErrorEvent,
+} from '@shared/events'
 
 export interface CurrentSong extends Song {
   position: number      // seconds offset
-  startedAt?: number    // server timestamp when play began
+  startedAt?: number    // server-clock timestamp (serverNow()) when play began
+}
+
+// Per-room drift correction thresholds (seconds), set by the host
+export interface RoomSyncSettings {
+  nudge_threshold: number   // drift above this nudges playbackRate
+  seek_threshold: number    // drift above this hard-seeks
 }
 
+// public = listed on the dashboard; unlisted = link only; private = password or invite
+export type RoomVisibility = 'public' | 'unlisted' | 'private'
+
 export interface Room {
   id: string
   name: string
   host_id: string
+  visibility: RoomVisibility
   current_song: CurrentSong | null
   queue: Song[]
   status: 'playing' | 'paused' | 'idle'
+  sync_settings?: RoomSyncSettings | null
   created_at: string
   member_count?: number
 }
@@ -37,37 +43,17 @@ export interface Poll {
   active: boolean
 }
 
-export interface RoomMember {
-  room_id: string
-  user_id: string
-  username: string
-  joined_at: string
-}
-
 export interface User {
   id: string
   email?: string
   username?: string
 }
 
-export interface SyncEvent {
-  room_id: string
-  position: number
-  status: 'playing' | 'paused'
-  server_time: number
-}
-
 export interface QueueEvent {
   room_id: string
   song: Song
 }
 
-export interface VoteEvent {
-  poll_id: string
-  user_id: string
-  song_id: string
-}
-
 export interface SearchResult {
   id: string
   title: string
@@ -0,0 +1,7 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Syncy — Per-room drift correction thresholds
+-- {"nudge_threshold": seconds, "seek_threshold": seconds}; NULL = client defaults
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS sync_settings JSONB DEFAULT NULL;
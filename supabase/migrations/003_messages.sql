@@ -0,0 +1,23 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Syncy — In-room chat history
+-- Written by the socket server only: it stamps id + created_at and inserts
+-- with the service role key (server/mirror.ts), which bypasses RLS. Clients
+-- get no write policy or grant, so a muted member can't post around it.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id         UUID PRIMARY KEY,
+  room_id    UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  user_id    UUID NOT NULL,
+  username   TEXT NOT NULL,
+  text       TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 500),
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_room_created ON public.messages(room_id, created_at DESC);
+
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "messages_select" ON public.messages FOR SELECT USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.messages FROM anon, authenticated;
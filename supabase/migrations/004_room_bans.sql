@@ -0,0 +1,24 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Syncy — Room bans
+-- Written by the socket server with the service role key (which bypasses
+-- RLS) and loaded on startup; the server refuses banned users at join_room.
+-- Hosts can read their own rooms' bans.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS public.room_bans (
+  room_id    UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  user_id    UUID NOT NULL,
+  banned_by  UUID NOT NULL,
+  reason     TEXT CHECK (char_length(reason) <= 200),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ,                          -- NULL = permanent
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_bans_expires ON public.room_bans(expires_at);
+
+ALTER TABLE public.room_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "room_bans_select" ON public.room_bans FOR SELECT TO authenticated USING (
+  EXISTS (SELECT 1 FROM public.rooms WHERE id = room_id AND host_id = auth.uid())
+);
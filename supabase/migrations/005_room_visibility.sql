@@ -0,0 +1,178 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Syncy — Public, unlisted and private rooms
+-- public   listed on the dashboard
+-- unlisted anyone with the link, not listed
+-- private  only the host and users who got in with the room password or a
+--          signed, expiring invite token (/join/:id?invite=…)
+-- The password hash and invite key stay in room_secrets, which no client
+-- can read; the functions below are the only way in.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public'
+    CHECK (visibility IN ('public', 'unlisted', 'private'));
+
+CREATE INDEX IF NOT EXISTS idx_rooms_public_created ON public.rooms(created_at DESC) WHERE visibility = 'public';
+
+-- RLS on and no policies: only SECURITY DEFINER functions read or write it
+CREATE TABLE IF NOT EXISTS public.room_secrets (
+  room_id       UUID PRIMARY KEY REFERENCES public.rooms(id) ON DELETE CASCADE,
+  password_hash TEXT,                                          -- bcrypt; NULL = invites only
+  invite_key    BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+ALTER TABLE public.room_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Users let into a private room (its host always is)
+CREATE TABLE IF NOT EXISTS public.room_access (
+  room_id    UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  user_id    UUID NOT NULL,
+  granted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE public.room_access ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "room_access_select" ON public.room_access FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+-- ── Access check (RLS below, and the socket server at join_room) ─────────────
+
+CREATE OR REPLACE FUNCTION public.can_access_room(p_room_id UUID, p_user_id UUID)
+RETURNS BOOLEAN LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND visibility = 'private')
+      OR EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = p_user_id)
+      OR EXISTS (SELECT 1 FROM room_access WHERE room_id = p_room_id AND user_id = p_user_id)
+$$;
+
+-- ── Host: password and invites ───────────────────────────────────────────────
+
+-- NULL or '' removes the password (invite links keep working)
+CREATE OR REPLACE FUNCTION public.set_room_password(p_room_id UUID, p_password TEXT)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = auth.uid()) THEN
+    RAISE EXCEPTION 'only the host can set the room password' USING ERRCODE = '42501';
+  END IF;
+  INSERT INTO room_secrets (room_id, password_hash)
+  VALUES (p_room_id, CASE WHEN coalesce(p_password, '') = '' THEN NULL ELSE crypt(p_password, gen_salt('bf')) END)
+  ON CONFLICT (room_id) DO UPDATE SET password_hash = EXCLUDED.password_hash;
+END $$;
+
+-- Token: "<expires, unix seconds>.<hex HMAC-SHA256 of room_id.expires>"
+CREATE OR REPLACE FUNCTION public.create_room_invite(p_room_id UUID, p_ttl_seconds INT DEFAULT 86400)
+RETURNS TEXT LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_key     BYTEA;
+  v_expires BIGINT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = auth.uid()) THEN
+    RAISE EXCEPTION 'only the host can create invites' USING ERRCODE = '42501';
+  END IF;
+  INSERT INTO room_secrets (room_id) VALUES (p_room_id) ON CONFLICT (room_id) DO NOTHING;
+  SELECT invite_key INTO v_key FROM room_secrets WHERE room_id = p_room_id;
+
+  v_expires := extract(epoch FROM now())::BIGINT + greatest(60, least(p_ttl_seconds, 30 * 86400));
+  RETURN v_expires || '.' || encode(hmac(convert_to(p_room_id || '.' || v_expires, 'UTF8'), v_key, 'sha256'), 'hex');
+END $$;
+
+-- ── Guest: get in with the password or an invite ─────────────────────────────
+
+-- true if the caller may join (now or already); grants access on a match
+CREATE OR REPLACE FUNCTION public.join_private_room(p_room_id UUID, p_password TEXT DEFAULT NULL, p_invite TEXT DEFAULT NULL)
+RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_uid     UUID := auth.uid();
+  v_secret  room_secrets;
+  v_expires BIGINT;
+  v_ok      BOOLEAN := false;
+BEGIN
+  IF v_uid IS NULL THEN RETURN false; END IF;
+  IF can_access_room(p_room_id, v_uid) THEN RETURN true; END IF;
+
+  SELECT * INTO v_secret FROM room_secrets WHERE room_id = p_room_id;
+  IF NOT FOUND THEN RETURN false; END IF;
+
+  IF p_password IS NOT NULL AND v_secret.password_hash IS NOT NULL THEN
+    v_ok := crypt(p_password, v_secret.password_hash) = v_secret.password_hash;
+  END IF;
+
+  IF NOT v_ok AND p_invite ~ '^[0-9]{1,12}\.[0-9a-f]{64}$' THEN
+    v_expires := split_part(p_invite, '.', 1)::BIGINT;
+    v_ok := v_expires > extract(epoch FROM now())
+        AND split_part(p_invite, '.', 2) =
+            encode(hmac(convert_to(p_room_id || '.' || v_expires, 'UTF8'), v_secret.invite_key, 'sha256'), 'hex');
+  END IF;
+
+  IF v_ok THEN
+    INSERT INTO room_access (room_id, user_id) VALUES (p_room_id, v_uid) ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN v_ok;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION public.set_room_password(UUID, TEXT)       FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_room_invite(UUID, INT)       FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.join_private_room(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT  EXECUTE ON FUNCTION public.set_room_password(UUID, TEXT)       TO authenticated;
+GRANT  EXECUTE ON FUNCTION public.create_room_invite(UUID, INT)       TO authenticated;
+GRANT  EXECUTE ON FUNCTION public.join_private_room(UUID, TEXT, TEXT) TO authenticated;
+
+-- Only the host may change who can get in. The update policy below already
+-- keeps others out of the row; this also holds for anything that bypasses it
+CREATE OR REPLACE FUNCTION public.guard_room_visibility()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.visibility IS DISTINCT FROM OLD.visibility AND auth.uid() IS DISTINCT FROM OLD.host_id THEN
+    RAISE EXCEPTION 'only the host can change room visibility' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS rooms_guard_visibility ON public.rooms;
+CREATE TRIGGER rooms_guard_visibility BEFORE UPDATE OF visibility ON public.rooms
+  FOR EACH ROW EXECUTE FUNCTION public.guard_room_visibility();
+
+-- ── Row Level Security ───────────────────────────────────────────────────────
+-- Private rooms (and their polls and chat) are hidden from everyone without access
+
+-- Only the host writes the row. WITH CHECK is open so the outgoing host can
+-- hand host_id to whoever the socket server made host; nobody else can claim it
+DROP POLICY IF EXISTS "rooms_update"      ON public.rooms;
+DROP POLICY IF EXISTS "rooms_update_anon" ON public.rooms;
+CREATE POLICY "rooms_update" ON public.rooms FOR UPDATE
+  USING (host_id = auth.uid())
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "rooms_select"      ON public.rooms;
+DROP POLICY IF EXISTS "rooms_select_anon" ON public.rooms;
+CREATE POLICY "rooms_select" ON public.rooms FOR SELECT USING (
+  visibility <> 'private'
+  OR host_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.room_access a WHERE a.room_id = rooms.id AND a.user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "polls_select"      ON public.polls;
+DROP POLICY IF EXISTS "polls_select_anon" ON public.polls;
+CREATE POLICY "polls_select" ON public.polls FOR SELECT USING (public.can_access_room(room_id, auth.uid()));
+
+DROP POLICY IF EXISTS "polls_insert"      ON public.polls;
+DROP POLICY IF EXISTS "polls_insert_anon" ON public.polls;
+CREATE POLICY "polls_insert" ON public.polls FOR INSERT WITH CHECK (public.can_access_room(room_id, auth.uid()));
+
+DROP POLICY IF EXISTS "polls_update"      ON public.polls;
+DROP POLICY IF EXISTS "polls_update_anon" ON public.polls;
+CREATE POLICY "polls_update" ON public.polls FOR UPDATE
+  USING (public.can_access_room(room_id, auth.uid()))
+  WITH CHECK (public.can_access_room(room_id, auth.uid()));
+
+DROP POLICY IF EXISTS "messages_select" ON public.messages;
+CREATE POLICY "messages_select" ON public.messages FOR SELECT USING (public.can_access_room(room_id, auth.uid()));
+
+DROP POLICY IF EXISTS "members_select" ON public.room_members;
+CREATE POLICY "members_select" ON public.room_members FOR SELECT USING (public.can_access_room(room_id, auth.uid()));
+
+DROP POLICY IF EXISTS "members_insert" ON public.room_members;
+CREATE POLICY "members_insert" ON public.room_members FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_access_room(room_id, auth.uid()));